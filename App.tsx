@@ -1,21 +1,83 @@
-import React, { useState } from 'react';
-import { PostCreator } from './components/PostCreator';
+import React, { useEffect, useRef, useState } from 'react';
+import { PostCreator, PostCreatorHandle } from './components/PostCreator';
 import { LiveCritic } from './components/LiveCritic';
-import { BlogPost, MediaType, Genre } from './types';
+import { MediaLibrary } from './components/MediaLibrary';
+import { PostContent } from './components/PostContent';
+import { SiteExportPanel } from './components/SiteExportPanel';
+import { PostDraftResult } from './services/aiPrompts';
+import { describeLink, embedHeight, MUSIC_PLATFORMS } from './services/linkResolver';
+import { deletePost, listPosts, updatePost } from './services/postRepository';
+import { BlogPost, Episode, MediaType, Genre, GENRES, PostStatus } from './types';
 
 const App: React.FC = () => {
   const [posts, setPosts] = useState<BlogPost[]>([]);
+  const [loadingPosts, setLoadingPosts] = useState(true);
   const [selectedGenre, setSelectedGenre] = useState<Genre | 'All'>('All');
+  const [showExport, setShowExport] = useState(false);
+  const [showMedia, setShowMedia] = useState(false);
+  const creatorRef = useRef<PostCreatorHandle>(null);
+  const creatorAnchorRef = useRef<HTMLDivElement>(null);
 
-  const handlePostCreated = (newPost: BlogPost) => {
-    setPosts([newPost, ...posts]);
+  // Load persisted posts on mount
+  useEffect(() => {
+    listPosts()
+      .then(setPosts)
+      .catch(e => console.error("Failed to load posts", e))
+      .finally(() => setLoadingPosts(false));
+  }, []);
+
+  // The post is already persisted by PostCreator; just reflect it in the list
+  const handlePostSaved = (saved: BlogPost) => {
+    setPosts(prev => prev.some(p => p.id === saved.id)
+      ? prev.map(p => p.id === saved.id ? saved : p)
+      : [saved, ...prev]);
+  };
+
+  const handleEdit = (post: BlogPost) => {
+    creatorRef.current?.editPost(post);
+    creatorAnchorRef.current?.scrollIntoView({ behavior: 'smooth' });
+  };
+
+  // A debate from the Live critic becomes the new entry
+  const handleTranscriptDraft = (draft: PostDraftResult) => {
+    if (creatorRef.current?.openDraft(draft)) {
+      creatorAnchorRef.current?.scrollIntoView({ behavior: 'smooth' });
+    }
+  };
+
+  const handleAttachEpisode = async (episode: Episode) => {
+    await creatorRef.current?.attachAudio(episode.mediaId);
+    creatorAnchorRef.current?.scrollIntoView({ behavior: 'smooth' });
   };
 
+  const handleSetStatus = async (post: BlogPost, status: PostStatus) => {
+    try {
+      handlePostSaved(await updatePost({ ...post, status }));
+    } catch (e) {
+      console.error("Failed to change post status", e);
+      alert("Could not update post");
+    }
+  };
+
+  const handleDelete = async (post: BlogPost) => {
+    if (!window.confirm(`Delete "${post.title}"? This cannot be undone.`)) return;
+    try {
+      await deletePost(post.id);
+      setPosts(prev => prev.filter(p => p.id !== post.id));
+    } catch (e) {
+      console.error("Failed to delete post", e);
+      alert("Could not delete post");
+    }
+  };
+
+  const publishedPosts = posts.filter(post => post.status === 'published');
+  const draftPosts = posts.filter(post => post.status === 'draft');
+
   const filteredPosts = selectedGenre === 'All' 
-    ? posts 
-    : posts.filter(post => post.genre === selectedGenre);
+    ? publishedPosts 
+    : publishedPosts.filter(post => post.genre === selectedGenre);
 
-  const genres: (Genre | 'All')[] = ['All', 'Goth', 'Industrial', 'Darkwave', 'Post-Punk', 'EBM', 'Synthpop', 'Metal', 'Other'];
+  const genres: (Genre | 'All')[] = ['All', ...GENRES];
 
   return (
     <div className="min-h-screen bg-[#121212] text-white font-sans pb-20">
@@ -26,14 +88,58 @@ const App: React.FC = () => {
             <span className="material-icons text-acid">graphic_eq</span>
             SENHOR GÓTICO
           </h1>
-          <div className="text-xs text-gray-500 font-mono hidden md:block">
-            AI-POWERED MUSIC JOURNAL
+          <div className="flex items-center gap-4">
+            <div className="text-xs text-gray-500 font-mono hidden md:block">
+              AI-POWERED MUSIC JOURNAL
+            </div>
+            <button
+              onClick={() => setShowMedia(true)}
+              className="text-xs font-bold uppercase border border-gray-700 hover:border-acid hover:text-acid text-gray-300 px-3 py-1 rounded flex items-center gap-1 transition-colors"
+            >
+              <span className="material-icons text-sm">photo_library</span> Media
+            </button>
+            <button
+              onClick={() => setShowExport(true)}
+              className="text-xs font-bold uppercase border border-gray-700 hover:border-acid hover:text-acid text-gray-300 px-3 py-1 rounded flex items-center gap-1 transition-colors"
+            >
+              <span className="material-icons text-sm">public</span> Build Site
+            </button>
           </div>
         </div>
       </header>
 
       <main className="max-w-6xl mx-auto px-4 py-8">
-        <PostCreator onPostCreated={handlePostCreated} />
+        <div ref={creatorAnchorRef} className="scroll-mt-20">
+          <PostCreator ref={creatorRef} onPostSaved={handlePostSaved} />
+        </div>
+
+        {/* Unpublished Drafts */}
+        {draftPosts.length > 0 && (
+          <div className="mb-8 bg-black/30 border border-gray-800 rounded-xl p-4">
+            <p className="text-[10px] uppercase text-gray-500 font-bold mb-3">Unpublished Drafts</p>
+            <ul className="space-y-2">
+              {draftPosts.map(post => (
+                <li key={post.id} className="flex items-center justify-between gap-4">
+                  <div className="min-w-0">
+                    <span className="text-white font-bold truncate block">{post.title}</span>
+                    <span className="text-[10px] text-gray-500 font-mono uppercase">{post.genre} · {post.date}</span>
+                  </div>
+                  <div className="flex gap-1 shrink-0">
+                    <button onClick={() => handleEdit(post)} className="text-gray-400 hover:text-acid p-1" title="Edit">
+                      <span className="material-icons text-sm">edit</span>
+                    </button>
+                    <button onClick={() => handleSetStatus(post, 'published')} className="text-gray-400 hover:text-acid p-1" title="Publish">
+                      <span className="material-icons text-sm">publish</span>
+                    </button>
+                    <button onClick={() => handleDelete(post)} className="text-gray-400 hover:text-red-500 p-1" title="Delete">
+                      <span className="material-icons text-sm">delete</span>
+                    </button>
+                  </div>
+                </li>
+              ))}
+            </ul>
+          </div>
+        )}
 
         {/* Genre Filter */}
         <div className="mb-8 overflow-x-auto pb-2">
@@ -56,7 +162,11 @@ const App: React.FC = () => {
 
         {/* Posts List */}
         <div className="space-y-8">
-          {filteredPosts.length === 0 ? (
+          {loadingPosts ? (
+            <div className="text-center py-20 text-gray-600">
+              <p className="font-mono animate-pulse">Loading archive...</p>
+            </div>
+          ) : filteredPosts.length === 0 ? (
             <div className="text-center py-20 text-gray-600">
               <span className="material-icons text-6xl mb-4 block opacity-20">library_music</span>
               <p className="font-mono">No entries found for {selectedGenre}.</p>
@@ -64,7 +174,12 @@ const App: React.FC = () => {
           ) : (
             filteredPosts.map(post => (
               <article key={post.id} className="bg-panel rounded-xl overflow-hidden border border-gray-800 shadow-lg animate-fade-in">
-                {post.mediaUrl && (
+                {post.mediaUrl && post.mediaType === MediaType.AUDIO ? (
+                  <div className="w-full bg-black p-4 flex items-center gap-3">
+                    <span className="material-icons text-acid">podcasts</span>
+                    <audio src={post.mediaUrl} controls className="flex-1" />
+                  </div>
+                ) : post.mediaUrl && (
                   <div className="w-full h-64 bg-black relative group">
                     {post.mediaType === MediaType.VIDEO ? (
                       <video src={post.mediaUrl} controls className="w-full h-full object-cover" />
@@ -87,17 +202,29 @@ const App: React.FC = () => {
                         </div>
                         <h2 className="text-2xl font-bold text-white leading-tight">{post.title}</h2>
                      </div>
-                     {post.youtubeUrl && (
-                         <a 
-                            href={post.youtubeUrl} 
-                            target="_blank" 
-                            rel="noopener noreferrer"
-                            className="bg-red-600 hover:bg-red-700 text-white p-2 rounded-full flex items-center justify-center transition-colors"
-                            title="Watch on YouTube"
-                         >
-                             <span className="material-icons text-sm">play_arrow</span>
-                         </a>
-                     )}
+                     <div className="flex items-center gap-1 shrink-0">
+                        <button onClick={() => handleEdit(post)} className="text-gray-500 hover:text-acid p-2" title="Edit">
+                            <span className="material-icons text-sm">edit</span>
+                        </button>
+                        <button onClick={() => handleSetStatus(post, 'draft')} className="text-gray-500 hover:text-acid p-2" title="Unpublish to Draft">
+                            <span className="material-icons text-sm">unpublished</span>
+                        </button>
+                        <button onClick={() => handleDelete(post)} className="text-gray-500 hover:text-red-500 p-2" title="Delete">
+                            <span className="material-icons text-sm">delete</span>
+                        </button>
+                        {post.sourceLinks?.map(link => (
+                            <a 
+                               key={link.url}
+                               href={link.url} 
+                               target="_blank" 
+                               rel="noopener noreferrer"
+                               className={`${link.platform === 'youtube' ? 'bg-red-600 hover:bg-red-700 text-white' : 'bg-acid hover:bg-lime-400 text-black'} p-2 rounded-full flex items-center justify-center transition-colors`}
+                               title={MUSIC_PLATFORMS[link.platform].action}
+                            >
+                                <span className="material-icons text-sm">{link.platform === 'youtube' ? 'play_arrow' : MUSIC_PLATFORMS[link.platform].icon}</span>
+                            </a>
+                        ))}
+                     </div>
                   </div>
                   
                   {post.metaDescription && (
@@ -106,9 +233,28 @@ const App: React.FC = () => {
                       </p>
                   )}
 
-                  <div className="prose prose-invert prose-sm max-w-none mb-6 font-mono text-gray-300 whitespace-pre-wrap">
-                    {post.content}
-                  </div>
+                  <PostContent
+                    content={post.content}
+                    format={post.contentFormat}
+                    className="prose prose-invert prose-sm max-w-none mb-6"
+                  />
+
+                  {post.sourceLinks?.some(link => link.embedUrl) && (
+                    <div className="space-y-3 mb-6">
+                      {post.sourceLinks.filter(link => link.embedUrl).map(link => (
+                        <iframe
+                          key={link.url}
+                          src={link.embedUrl}
+                          title={describeLink(link)}
+                          loading="lazy"
+                          className={`w-full rounded border-0 bg-black ${embedHeight(link) ? '' : 'aspect-video'}`}
+                          style={embedHeight(link) ? { height: embedHeight(link)! } : undefined}
+                          allow="autoplay; encrypted-media; picture-in-picture"
+                          allowFullScreen
+                        />
+                      ))}
+                    </div>
+                  )}
 
                   <div className="flex flex-wrap gap-2 pt-4 border-t border-gray-800">
                     {post.tags.map(tag => (
@@ -137,7 +283,20 @@ const App: React.FC = () => {
         </div>
       </main>
       
-      <LiveCritic />
+      <LiveCritic
+        onCreatePost={handleTranscriptDraft}
+        onAttachEpisode={handleAttachEpisode}
+        getDraft={() => creatorRef.current}
+        getPinnedMediaIds={() => creatorRef.current?.referencedMediaIds() || []}
+      />
+
+      {showExport && <SiteExportPanel posts={posts} onClose={() => setShowExport(false)} />}
+      {showMedia && (
+        <MediaLibrary
+          onClose={() => setShowMedia(false)}
+          pinnedIds={creatorRef.current?.referencedMediaIds()}
+        />
+      )}
     </div>
   );
 };
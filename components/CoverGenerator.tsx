@@ -0,0 +1,188 @@
+import React, { useState } from 'react';
+import { COVER_STYLES } from '../services/aiPrompts';
+import { CoverDraft, getAIProvider, InlineImage, MAX_IMAGE_CANDIDATES } from '../services/aiProvider';
+import { StructuredOutputError } from '../services/structuredOutput';
+import { Genre, GENRES, ImageAspectRatio } from '../types';
+import { Button } from './Button';
+
+interface CoverGeneratorProps {
+  draft: CoverDraft;
+  onSelect: (image: InlineImage, prompt: string) => void;
+}
+
+interface CoverSettings {
+  aspectRatio: ImageAspectRatio;
+  count: number;
+}
+
+const COVER_SETTINGS_KEY = 'senhor_gotico_cover_settings';
+
+const DEFAULT_COVER_SETTINGS: CoverSettings = { aspectRatio: '1:1', count: 4 };
+
+const ASPECT_RATIOS: { value: ImageAspectRatio, icon: string }[] = [
+  { value: '1:1', icon: 'crop_square' },
+  { value: '4:3', icon: 'crop_landscape' },
+  { value: '3:4', icon: 'crop_portrait' },
+  { value: '16:9', icon: 'crop_16_9' },
+  { value: '9:16', icon: 'crop_portrait' },
+];
+
+const loadSettings = (): CoverSettings => {
+  try {
+    const saved = localStorage.getItem(COVER_SETTINGS_KEY);
+    return saved ? { ...DEFAULT_COVER_SETTINGS, ...JSON.parse(saved) } : DEFAULT_COVER_SETTINGS;
+  } catch {
+    return DEFAULT_COVER_SETTINGS;
+  }
+};
+
+export const CoverGenerator: React.FC<CoverGeneratorProps> = ({ draft, onSelect }) => {
+  const [prompt, setPrompt] = useState('');
+  // null follows the post's genre
+  const [style, setStyle] = useState<Genre | null>(null);
+  const [settings, setSettings] = useState<CoverSettings>(loadSettings);
+  const [writing, setWriting] = useState(false);
+  const [generating, setGenerating] = useState(false);
+  const [candidates, setCandidates] = useState<InlineImage[]>([]);
+  // The prompt the candidates on screen were made from
+  const [candidatePrompt, setCandidatePrompt] = useState('');
+  const [error, setError] = useState<string | null>(null);
+
+  const activeStyle = style || draft.genre;
+
+  const updateSettings = (changes: Partial<CoverSettings>) => {
+    const next = { ...settings, ...changes };
+    setSettings(next);
+    localStorage.setItem(COVER_SETTINGS_KEY, JSON.stringify(next));
+  };
+
+  const handleWritePrompt = async () => {
+    setWriting(true);
+    setError(null);
+    try {
+      setPrompt(await getAIProvider().writeCoverPrompt({ ...draft, genre: activeStyle }));
+    } catch (e) {
+      console.error("Cover prompt failed", e);
+      setError(e instanceof StructuredOutputError
+        ? `The AI reply could not be used:\n${e.issues.join('\n')}`
+        : "Could not write a prompt from the draft.");
+    } finally {
+      setWriting(false);
+    }
+  };
+
+  const handleGenerate = async () => {
+    if (!prompt.trim()) return;
+    setGenerating(true);
+    setError(null);
+    try {
+      const images = await getAIProvider().generateImages({
+        prompt: prompt.trim(),
+        style: activeStyle,
+        aspectRatio: settings.aspectRatio,
+        count: settings.count,
+      });
+      setCandidates(images);
+      setCandidatePrompt(prompt.trim());
+    } catch (e: any) {
+      console.error(e);
+      setError(e?.message ? `Could not generate covers: ${e.message}` : "Could not generate covers.");
+    } finally {
+      setGenerating(false);
+    }
+  };
+
+  if (!getAIProvider().capabilities.has('imageGenerate')) return null;
+
+  return (
+    <div className="p-4 border border-gray-700 bg-black rounded">
+      <h3 className="text-acid font-bold mb-2 flex items-center gap-2">
+        <span className="material-icons">auto_awesome</span> Generate Cover Art
+      </h3>
+
+      <div className="grid grid-cols-2 gap-3 mb-3">
+        <div>
+          <label className="block text-gray-400 text-[10px] font-bold uppercase mb-1">Style</label>
+          <select
+            value={style || ''}
+            onChange={(e) => setStyle((e.target.value || null) as Genre | null)}
+            className="w-full bg-gray-800 border border-gray-600 p-2 text-white text-sm rounded focus:border-acid outline-none"
+            title={COVER_STYLES[activeStyle]}
+          >
+            <option value="">Match genre ({draft.genre})</option>
+            {GENRES.map(g => <option key={g} value={g}>{g}</option>)}
+          </select>
+        </div>
+
+        <div>
+          <label className="block text-gray-400 text-[10px] font-bold uppercase mb-1">Candidates: {settings.count}</label>
+          <input
+            type="range"
+            min={1}
+            max={MAX_IMAGE_CANDIDATES}
+            value={settings.count}
+            onChange={(e) => updateSettings({ count: Number(e.target.value) })}
+            className="w-full accent-acid"
+          />
+        </div>
+
+        <div className="col-span-2">
+          <label className="block text-gray-400 text-[10px] font-bold uppercase mb-1">Aspect Ratio</label>
+          <div className="flex gap-1">
+            {ASPECT_RATIOS.map(ratio => (
+              <button
+                key={ratio.value}
+                onClick={() => updateSettings({ aspectRatio: ratio.value })}
+                className={`flex-1 flex items-center justify-center gap-1 text-xs p-2 rounded border transition-colors ${settings.aspectRatio === ratio.value ? 'border-acid text-acid' : 'border-gray-700 text-gray-400 hover:border-gray-500'}`}
+              >
+                <span className="material-icons text-sm">{ratio.icon}</span> {ratio.value}
+              </button>
+            ))}
+          </div>
+        </div>
+      </div>
+
+      <div className="flex justify-between items-center mb-1">
+        <label className="block text-gray-400 text-[10px] font-bold uppercase">Prompt</label>
+        <button
+          onClick={handleWritePrompt}
+          disabled={writing || !draft.title}
+          className="text-[10px] bg-gray-800 hover:bg-gray-700 text-acid px-2 py-0.5 rounded border border-gray-600 flex items-center gap-1 disabled:opacity-50 transition-colors"
+          title={draft.title ? "Describe a cover from the title, genre and content" : "Needs a title first"}
+        >
+          {writing ? <span className="animate-spin">↻</span> : <span className="material-icons text-[10px]">edit_note</span>}
+          Write from draft
+        </button>
+      </div>
+      <textarea
+        value={prompt}
+        onChange={(e) => setPrompt(e.target.value)}
+        placeholder="Describe the cover (e.g. 'A ruined chapel in fog under a blood moon')"
+        className="w-full h-20 bg-gray-800 border border-gray-600 p-2 text-white text-sm rounded focus:border-acid outline-none resize-none mb-2"
+      />
+      <Button onClick={handleGenerate} isLoading={generating} disabled={!prompt.trim()} variant="secondary" className="w-full">
+        Generate {settings.count > 1 ? `${settings.count} Covers` : 'Cover'}
+      </Button>
+
+      {error && <div className="text-red-400 text-sm mt-2 whitespace-pre-line">{error}</div>}
+
+      {candidates.length > 0 && (
+        <div className="mt-3">
+          <p className="text-gray-500 text-xs mb-2">Pick one to use as the cover:</p>
+          <div className="grid grid-cols-2 gap-2">
+            {candidates.map((image, index) => (
+              <button
+                key={index}
+                onClick={() => onSelect(image, candidatePrompt)}
+                className="rounded overflow-hidden border border-gray-700 hover:border-acid transition-colors"
+                title="Use as cover"
+              >
+                <img src={`data:${image.mimeType};base64,${image.data}`} alt={`Candidate ${index + 1}`} className="w-full h-32 object-cover" />
+              </button>
+            ))}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
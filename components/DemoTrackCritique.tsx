@@ -0,0 +1,161 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { AudioCritiqueResult } from '../services/aiPrompts';
+import { getAIProvider } from '../services/aiProvider';
+import { arrayBufferToBase64, CLIP_MAX_SECONDS, prepareAudioClip } from '../services/audioUtils';
+import { StructuredOutputError } from '../services/structuredOutput';
+import { Button } from './Button';
+
+interface DemoTrackCritiqueProps {
+  onResult: (result: AudioCritiqueResult) => void;
+}
+
+const ACCEPTED_AUDIO = 'audio/wav,audio/x-wav,audio/mpeg,audio/ogg,.wav,.mp3,.ogg';
+
+const formatSeconds = (seconds: number) =>
+  `${Math.floor(seconds / 60)}:${String(Math.floor(seconds % 60)).padStart(2, '0')}`;
+
+// Demo submissions arrive as files: drop one, or record a snippet with the mic
+export const DemoTrackCritique: React.FC<DemoTrackCritiqueProps> = ({ onResult }) => {
+  const [busy, setBusy] = useState<'preparing' | 'listening' | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [notice, setNotice] = useState<string | null>(null);
+  const [dragging, setDragging] = useState(false);
+  // Seconds recorded so far; null while not recording
+  const [recordedSeconds, setRecordedSeconds] = useState<number | null>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const recorderRef = useRef<MediaRecorder | null>(null);
+
+  const stopRecording = () => {
+    if (recorderRef.current?.state === 'recording') recorderRef.current.stop();
+  };
+
+  // Stop the mic if the form goes away mid-recording
+  useEffect(() => stopRecording, []);
+
+  const critique = async (audio: Blob, name: string) => {
+    setError(null);
+    setNotice(null);
+    setBusy('preparing');
+    try {
+      const clip = await prepareAudioClip(await audio.arrayBuffer());
+      if (clip.sourceDuration > clip.duration) {
+        setNotice(`Only the first ${formatSeconds(clip.duration)} of ${formatSeconds(clip.sourceDuration)} was sent.`);
+      }
+      setBusy('listening');
+      onResult(await getAIProvider().critiqueAudio({
+        data: arrayBufferToBase64(clip.wav),
+        name,
+        duration: clip.duration,
+        sourceDuration: clip.sourceDuration,
+      }));
+    } catch (e) {
+      console.error("Audio critique failed", e);
+      setError(e instanceof StructuredOutputError
+        ? `The AI reply could not be turned into a draft:\n${e.issues.join('\n')}`
+        : e instanceof DOMException && e.name === 'EncodingError'
+          ? "That file could not be decoded. Try a WAV, MP3 or OGG."
+          : "Could not critique the track.");
+    } finally {
+      setBusy(null);
+    }
+  };
+
+  const handleFiles = (files: FileList | null) => {
+    const file = files?.[0];
+    if (!file) return;
+    if (!file.type.startsWith('audio/') && !/\.(wav|mp3|ogg)$/i.test(file.name)) {
+      setError("That is not an audio file.");
+      return;
+    }
+    critique(file, file.name);
+  };
+
+  const startRecording = async () => {
+    setError(null);
+    let stream: MediaStream;
+    try {
+      stream = await navigator.mediaDevices.getUserMedia({ audio: true });
+    } catch (e) {
+      setError(e instanceof DOMException && e.name === 'NotAllowedError'
+        ? "Microphone access was blocked."
+        : "No microphone available.");
+      return;
+    }
+
+    const recorder = new MediaRecorder(stream);
+    const chunks: Blob[] = [];
+    const startedAt = Date.now();
+    const timer = setInterval(() => {
+      const seconds = (Date.now() - startedAt) / 1000;
+      setRecordedSeconds(seconds);
+      if (seconds >= CLIP_MAX_SECONDS) stopRecording();
+    }, 250);
+
+    recorder.ondataavailable = (e) => chunks.push(e.data);
+    recorder.onstop = () => {
+      clearInterval(timer);
+      stream.getTracks().forEach(track => track.stop());
+      recorderRef.current = null;
+      setRecordedSeconds(null);
+      // Nothing to send when the form was closed mid-recording
+      if (!chunks.length || !fileInputRef.current) return;
+      critique(new Blob(chunks, { type: recorder.mimeType }), `Snippet recorded ${new Date().toLocaleString()}`);
+    };
+    recorderRef.current = recorder;
+    recorder.start();
+    setRecordedSeconds(0);
+  };
+
+  if (!getAIProvider().capabilities.has('audio')) return null;
+
+  const recording = recordedSeconds !== null;
+
+  return (
+    <div>
+      <label className="block text-gray-400 text-xs font-bold uppercase mb-2">Demo Track</label>
+      <div
+        onDragOver={e => { e.preventDefault(); setDragging(true); }}
+        onDragLeave={() => setDragging(false)}
+        onDrop={e => { e.preventDefault(); setDragging(false); if (!busy && !recording) handleFiles(e.dataTransfer.files); }}
+        className={`border border-dashed rounded p-3 transition-colors ${dragging ? 'border-acid bg-acid/5' : 'border-gray-700'}`}
+      >
+        <div className="flex items-center gap-2">
+          <span className="material-icons text-gray-500">graphic_eq</span>
+          <span className="flex-1 text-xs text-gray-400">
+            {busy === 'preparing' ? 'Decoding the track...'
+              : busy === 'listening' ? 'The critic is listening...'
+              : recording ? `Recording ${formatSeconds(recordedSeconds)} / ${formatSeconds(CLIP_MAX_SECONDS)}`
+              : 'Drop a demo (WAV, MP3, OGG) or record a snippet'}
+          </span>
+          <input
+            ref={fileInputRef}
+            type="file"
+            accept={ACCEPTED_AUDIO}
+            className="hidden"
+            onChange={e => { handleFiles(e.target.files); e.target.value = ''; }}
+          />
+          <Button
+            onClick={() => fileInputRef.current?.click()}
+            disabled={recording || !!busy}
+            isLoading={!!busy}
+            variant="secondary"
+            className="!py-1 !px-3 text-xs"
+          >
+            <span className="material-icons text-sm">upload_file</span> File
+          </Button>
+          <Button
+            onClick={recording ? stopRecording : startRecording}
+            disabled={!!busy}
+            variant={recording ? 'danger' : 'secondary'}
+            className="!py-1 !px-3 text-xs"
+            title={recording ? 'Stop and send' : 'Record from the microphone'}
+          >
+            <span className="material-icons text-sm">{recording ? 'stop' : 'mic'}</span> {recording ? 'Stop' : 'Record'}
+          </Button>
+        </div>
+        {notice && <p className="text-[10px] text-gray-500 font-mono mt-2">{notice}</p>}
+        {error && <p className="text-xs text-red-400 mt-2 whitespace-pre-line">{error}</p>}
+      </div>
+    </div>
+  );
+};
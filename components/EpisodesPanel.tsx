@@ -0,0 +1,148 @@
+import React, { useEffect, useState } from 'react';
+import { deleteEpisode, downloadEpisode, episodeFilename, listEpisodes } from '../services/episodes';
+import { listTranscripts, transcriptToMarkdown } from '../services/liveTranscripts';
+import { getMediaUrl } from '../services/mediaLibrary';
+import { listPosts } from '../services/postRepository';
+import { Episode, LiveTranscript } from '../types';
+
+interface EpisodesPanelProps {
+  // Changes whenever a recording is saved, so the list picks it up
+  latestId: string | null;
+  onAttach: (episode: Episode) => void;
+  onClose: () => void;
+  // Media the open editor and the saved new entry still hold
+  getPinnedIds: () => string[];
+}
+
+const formatDuration = (seconds: number) =>
+  `${Math.floor(seconds / 60)}:${String(Math.round(seconds % 60)).padStart(2, '0')}`;
+
+export const EpisodesPanel: React.FC<EpisodesPanelProps> = ({ latestId, onAttach, onClose, getPinnedIds }) => {
+  const [episodes, setEpisodes] = useState<Episode[]>([]);
+  const [urls, setUrls] = useState<Record<string, string>>({});
+  const [transcripts, setTranscripts] = useState<Record<string, LiveTranscript>>({});
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    const load = async () => {
+      const [saved, sessions] = await Promise.all([listEpisodes(), listTranscripts()]);
+      const resolved: Record<string, string> = {};
+      for (const episode of saved) {
+        const url = await getMediaUrl(episode.mediaId);
+        if (url) resolved[episode.id] = url;
+      }
+      setEpisodes(saved);
+      setUrls(resolved);
+      setTranscripts(Object.fromEntries(sessions.map(t => [t.id, t])));
+    };
+    load().catch(e => console.error("Failed to load episodes", e));
+  }, [latestId]);
+
+  const handleDownload = async (episode: Episode) => {
+    setError(null);
+    try {
+      await downloadEpisode(episode);
+    } catch (e) {
+      console.error("Episode download failed", e);
+      setError("Could not download this episode.");
+    }
+  };
+
+  const handleDownloadTranscript = (episode: Episode, transcript: LiveTranscript) => {
+    const url = URL.createObjectURL(new Blob([transcriptToMarkdown(transcript)], { type: 'text/markdown' }));
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = episodeFilename(episode, 'md');
+    link.click();
+    setTimeout(() => URL.revokeObjectURL(url), 1000);
+  };
+
+  const handleDelete = async (episode: Episode) => {
+    setError(null);
+    try {
+      const posts = await listPosts();
+      if (posts.some(post => post.mediaId === episode.mediaId)) {
+        setError("A post uses this episode; remove it from the post first.");
+        return;
+      }
+      if (getPinnedIds().includes(episode.mediaId)) {
+        setError("A draft uses this episode; remove it from the draft first.");
+        return;
+      }
+      if (!window.confirm("Delete this episode and its recording?")) return;
+      await deleteEpisode(episode);
+      setEpisodes(prev => prev.filter(e => e.id !== episode.id));
+    } catch (e) {
+      console.error("Failed to delete episode", e);
+      setError("Could not delete this episode.");
+    }
+  };
+
+  return (
+    <div className="bg-black/95 border border-gray-700 rounded-xl shadow-2xl w-96 max-w-[calc(100vw-3rem)] flex flex-col max-h-[60vh] animate-fade-in">
+      <div className="flex items-center gap-2 p-3 border-b border-gray-800">
+        <span className="material-icons text-acid text-sm">podcasts</span>
+        <span className="flex-1 text-xs text-gray-300 font-mono uppercase">Episodes</span>
+        <button onClick={onClose} className="text-gray-500 hover:text-white" title="Close">
+          <span className="material-icons text-sm">close</span>
+        </button>
+      </div>
+
+      <div className="flex-1 overflow-y-auto p-3 space-y-3">
+        {episodes.length === 0 ? (
+          <p className="text-gray-600 text-xs font-mono text-center py-6">
+            Turn on recording before a session to keep it as an episode.
+          </p>
+        ) : (
+          episodes.map(episode => {
+            const transcript = episode.transcriptId ? transcripts[episode.transcriptId] : undefined;
+            return (
+              <div key={episode.id} className="border border-gray-800 rounded p-2 space-y-2">
+                <div className="flex items-center gap-2 text-[10px] font-bold uppercase font-mono text-gray-500">
+                  <span>{new Date(episode.createdAt).toLocaleString()}</span>
+                  <span className="text-acid">{formatDuration(episode.duration)}</span>
+                  {transcript && <span className="text-neon">transcript</span>}
+                </div>
+                {urls[episode.id] && <audio src={urls[episode.id]} controls className="w-full h-8" />}
+                <div className="flex items-center gap-1">
+                  <button
+                    onClick={() => handleDownload(episode)}
+                    className="text-[10px] font-bold uppercase px-2 py-1 rounded border border-gray-700 text-gray-400 hover:text-white"
+                    title="Download as WAV"
+                  >
+                    WAV
+                  </button>
+                  {transcript && (
+                    <button
+                      onClick={() => handleDownloadTranscript(episode, transcript)}
+                      className="text-[10px] font-bold uppercase px-2 py-1 rounded border border-gray-700 text-gray-400 hover:text-white"
+                      title="Download the transcript as Markdown"
+                    >
+                      MD
+                    </button>
+                  )}
+                  <button
+                    onClick={() => handleDelete(episode)}
+                    className="text-gray-500 hover:text-red-500 p-1"
+                    title="Delete episode"
+                  >
+                    <span className="material-icons text-sm">delete</span>
+                  </button>
+                  <button
+                    onClick={() => onAttach(episode)}
+                    className="ml-auto text-[10px] font-bold uppercase px-2 py-1 rounded border border-acid text-acid hover:bg-acid hover:text-black"
+                    title="Use as the media of the entry being written"
+                  >
+                    Attach to post
+                  </button>
+                </div>
+              </div>
+            );
+          })
+        )}
+      </div>
+
+      {error && <div className="text-red-400 text-xs px-3 pb-2">{error}</div>}
+    </div>
+  );
+};
@@ -1,15 +1,69 @@
-import React, { useState } from 'react';
-import { editImage } from '../services/geminiService';
+import React, { useEffect, useRef, useState } from 'react';
+import { getAIProvider } from '../services/aiProvider';
+import {
+  addVersion,
+  canRedo,
+  canUndo,
+  currentVersion,
+  flattenTree,
+  getVersion,
+  promptChain,
+  redo,
+  selectVersion,
+  undo,
+} from '../services/imageHistory';
+import { compositeWithMask, exportMaskPng, MaskOptions } from '../services/imageMask';
+import { getMediaUrl, importMediaUrl } from '../services/mediaLibrary';
+import { ImageHistory } from '../types';
 import { Button } from './Button';
+import { MaskCanvas, MaskCanvasHandle, MaskTool } from './MaskCanvas';
+
+const MASK_TOOLS: { value: MaskTool, label: string, icon: string }[] = [
+  { value: 'brush', label: 'Brush', icon: 'brush' },
+  { value: 'lasso', label: 'Lasso', icon: 'gesture' },
+  { value: 'erase', label: 'Erase', icon: 'auto_fix_normal' },
+];
 
 interface ImageEditorProps {
+  // data: URL of the current version, as the edit API needs its bytes
   initialImage: string;
-  onImageUpdate: (newImage: string) => void;
+  history: ImageHistory;
+  onHistoryChange: (history: ImageHistory) => void;
 }
 
-export const ImageEditor: React.FC<ImageEditorProps> = ({ initialImage, onImageUpdate }) => {
+export const ImageEditor: React.FC<ImageEditorProps> = ({ initialImage, history, onHistoryChange }) => {
   const [prompt, setPrompt] = useState('');
   const [loading, setLoading] = useState(false);
+  const [urls, setUrls] = useState<Record<string, string>>({});
+  const [comparing, setComparing] = useState(false);
+  const [split, setSplit] = useState(50);
+  const [showHistory, setShowHistory] = useState(false);
+  // Regional inpainting: limit the edit to a painted mask
+  const [masking, setMasking] = useState(false);
+  const [maskTool, setMaskTool] = useState<MaskTool>('brush');
+  const [brushSize, setBrushSize] = useState(5);
+  const [feather, setFeather] = useState(1);
+  const [invertMask, setInvertMask] = useState(false);
+  const maskRef = useRef<MaskCanvasHandle>(null);
+
+  const current = currentVersion(history);
+  const parent = current.parentId ? getVersion(history, current.parentId) : undefined;
+
+  // Thumbnails for every version in the tree
+  useEffect(() => {
+    let cancelled = false;
+    (async () => {
+      const resolved: Record<string, string> = {};
+      for (const version of history.versions) {
+        const url = await getMediaUrl(version.mediaId);
+        if (url) resolved[version.mediaId] = url;
+      }
+      if (!cancelled) setUrls(resolved);
+    })();
+    return () => {
+      cancelled = true;
+    };
+  }, [history.versions]);
 
   const handleEdit = async () => {
     if (!prompt.trim()) return;
@@ -17,8 +71,23 @@ export const ImageEditor: React.FC<ImageEditorProps> = ({ initialImage, onImageU
     try {
       // Remove data:image/png;base64, prefix for the API
       const rawBase64 = initialImage.split(',')[1];
-      const newImageRaw = await editImage(rawBase64, prompt);
-      onImageUpdate(`data:image/png;base64,${newImageRaw}`);
+      const mask = masking ? maskRef.current?.getMask() : null;
+      let result: string;
+
+      if (mask) {
+        // Feathering is set as a percentage of the image width
+        const options: MaskOptions = { feather: (feather / 100) * mask.width, invert: invertMask };
+        const newImageRaw = await getAIProvider().editImage(rawBase64, prompt, exportMaskPng(mask, options));
+        // Whatever the model did outside the mask is discarded
+        result = await compositeWithMask(initialImage, `data:image/png;base64,${newImageRaw}`, mask, options);
+      } else {
+        const newImageRaw = await getAIProvider().editImage(rawBase64, prompt);
+        result = `data:image/png;base64,${newImageRaw}`;
+      }
+
+      const asset = await importMediaUrl(result, { source: 'image-edit', prompt });
+      // Always a child of the version on screen, so editing an older one branches
+      onHistoryChange(addVersion(history, current.id, asset.id, prompt));
       setPrompt('');
     } catch (e) {
       alert("Failed to edit image");
@@ -27,29 +96,170 @@ export const ImageEditor: React.FC<ImageEditorProps> = ({ initialImage, onImageU
     }
   };
 
+  const chain = promptChain(history);
+
   return (
     <div className="mt-2">
-      <div className="relative group">
-        <img src={initialImage} alt="Cover" className="w-full h-64 object-cover rounded border border-gray-700" />
-        <div className="absolute inset-0 bg-black/60 opacity-0 group-hover:opacity-100 transition-opacity flex items-end p-4">
-           <div className="w-full">
-             <label className="text-xs text-neon font-bold uppercase mb-1 block">AI Edit (Nano Banana)</label>
-             <div className="flex gap-2">
-               <input 
-                 type="text" 
-                 value={prompt}
-                 onChange={e => setPrompt(e.target.value)}
-                 placeholder="e.g. 'Make it cyberpunk', 'Add a cat'"
-                 className="flex-1 bg-gray-900/90 text-white text-sm p-2 rounded border border-gray-500 focus:border-neon outline-none"
-                 onKeyDown={(e) => e.key === 'Enter' && handleEdit()}
-               />
-               <Button onClick={handleEdit} isLoading={loading} disabled={!prompt} variant="neon" className="!py-1 !px-3 text-xs">
-                 Go
-               </Button>
-             </div>
-           </div>
+      {masking ? (
+        <div>
+          <MaskCanvas ref={maskRef} image={initialImage} tool={maskTool} brushSize={brushSize} invert={invertMask} />
+
+          <div className="mt-2 p-2 border border-gray-800 rounded bg-black/40 space-y-2 text-xs">
+            <div className="flex items-center gap-1">
+              {MASK_TOOLS.map(t => (
+                <button
+                  key={t.value}
+                  onClick={() => setMaskTool(t.value)}
+                  className={`flex items-center gap-1 px-2 py-1 rounded border transition-colors ${maskTool === t.value ? 'border-neon text-neon' : 'border-gray-700 text-gray-400 hover:border-gray-500'}`}
+                  title={t.label}
+                >
+                  <span className="material-icons text-sm">{t.icon}</span> {t.label}
+                </button>
+              ))}
+              <button onClick={() => maskRef.current?.clear()} className="ml-auto text-gray-400 hover:text-red-400 flex items-center gap-1" title="Clear mask">
+                <span className="material-icons text-sm">layers_clear</span> Clear
+              </button>
+            </div>
+            <div className="grid grid-cols-2 gap-3 text-gray-400">
+              <label className="block">
+                Brush: {brushSize}%
+                <input type="range" min={1} max={25} value={brushSize} onChange={e => setBrushSize(Number(e.target.value))} className="w-full accent-neon" />
+              </label>
+              <label className="block">
+                Feather: {feather}%
+                <input type="range" min={0} max={10} step={0.5} value={feather} onChange={e => setFeather(Number(e.target.value))} className="w-full accent-neon" />
+              </label>
+            </div>
+            <label className="flex items-center gap-2 text-gray-400 cursor-pointer">
+              <input type="checkbox" checked={invertMask} onChange={e => setInvertMask(e.target.checked)} className="accent-neon" />
+              Invert: edit everything except the painted area
+            </label>
+            <div className="flex gap-2">
+              <input
+                type="text"
+                value={prompt}
+                onChange={e => setPrompt(e.target.value)}
+                placeholder="e.g. 'Add fog', 'Replace with a full moon'"
+                className="flex-1 bg-gray-900/90 text-white text-sm p-2 rounded border border-gray-500 focus:border-neon outline-none"
+                onKeyDown={(e) => e.key === 'Enter' && handleEdit()}
+              />
+              <Button onClick={handleEdit} isLoading={loading} disabled={!prompt} variant="neon" className="!py-1 !px-3 text-xs">
+                Go
+              </Button>
+            </div>
+          </div>
+        </div>
+      ) : (
+        <div className="relative group">
+          {comparing && parent && urls[parent.mediaId] ? (
+            // Before/after: the previous version shows through on the left of the handle
+            <div className="relative w-full h-64 select-none">
+              <img src={initialImage} alt="After" className="absolute inset-0 w-full h-64 object-cover rounded border border-gray-700" />
+              <img
+                src={urls[parent.mediaId]}
+                alt="Before"
+                className="absolute inset-0 w-full h-64 object-cover rounded border border-gray-700"
+                style={{ clipPath: `inset(0 ${100 - split}% 0 0)` }}
+              />
+              <div className="absolute inset-y-0 w-0.5 bg-neon pointer-events-none" style={{ left: `${split}%` }} />
+              <span className="absolute top-2 left-2 bg-black/70 px-2 py-0.5 rounded text-[10px] text-gray-300 font-bold uppercase">Before</span>
+              <span className="absolute top-2 right-2 bg-black/70 px-2 py-0.5 rounded text-[10px] text-neon font-bold uppercase">After</span>
+              <input
+                type="range"
+                min={0}
+                max={100}
+                value={split}
+                onChange={e => setSplit(Number(e.target.value))}
+                className="absolute bottom-2 left-4 right-4 w-[calc(100%-2rem)] accent-neon"
+                aria-label="Compare before and after"
+              />
+            </div>
+          ) : (
+            <img src={initialImage} alt="Cover" className="w-full h-64 object-cover rounded border border-gray-700" />
+          )}
+          {!comparing && getAIProvider().capabilities.has('imageEdit') && (
+            <div className="absolute inset-0 bg-black/60 opacity-0 group-hover:opacity-100 transition-opacity flex items-end p-4">
+               <div className="w-full">
+                 <label className="text-xs text-neon font-bold uppercase mb-1 block">AI Edit (Nano Banana)</label>
+                 <div className="flex gap-2">
+                   <input
+                     type="text"
+                     value={prompt}
+                     onChange={e => setPrompt(e.target.value)}
+                     placeholder="e.g. 'Make it cyberpunk', 'Add a cat'"
+                     className="flex-1 bg-gray-900/90 text-white text-sm p-2 rounded border border-gray-500 focus:border-neon outline-none"
+                     onKeyDown={(e) => e.key === 'Enter' && handleEdit()}
+                   />
+                   <Button onClick={handleEdit} isLoading={loading} disabled={!prompt} variant="neon" className="!py-1 !px-3 text-xs">
+                     Go
+                   </Button>
+                 </div>
+               </div>
+            </div>
+          )}
         </div>
+      )}
+
+      <div className="mt-2 flex items-center gap-1 text-xs">
+        {getAIProvider().capabilities.has('imageEdit') && (
+          <Button
+            onClick={() => { setMasking(!masking); setComparing(false); }}
+            variant="secondary"
+            className={`!px-2 !py-1 text-xs ${masking ? '!border-neon text-neon' : ''}`}
+            title="Paint a region and edit only that part"
+          >
+            <span className="material-icons text-sm">format_paint</span>
+          </Button>
+        )}
+        {history.versions.length > 1 && (
+          <>
+            <Button onClick={() => onHistoryChange(undo(history))} disabled={!canUndo(history)} variant="secondary" className="!px-2 !py-1 text-xs" title="Undo edit">
+              <span className="material-icons text-sm">undo</span>
+            </Button>
+            <Button onClick={() => onHistoryChange(redo(history))} disabled={!canRedo(history)} variant="secondary" className="!px-2 !py-1 text-xs" title="Redo edit">
+              <span className="material-icons text-sm">redo</span>
+            </Button>
+            <Button
+              onClick={() => { setComparing(!comparing); setMasking(false); }}
+              disabled={!parent}
+              variant="secondary"
+              className={`!px-2 !py-1 text-xs ${comparing ? '!border-neon text-neon' : ''}`}
+              title="Compare with the previous version"
+            >
+              <span className="material-icons text-sm">compare</span>
+            </Button>
+            <button onClick={() => setShowHistory(!showHistory)} className="ml-auto text-gray-400 hover:text-neon flex items-center gap-1">
+              <span className="material-icons text-sm">account_tree</span>
+              {history.versions.length} versions
+            </button>
+          </>
+        )}
       </div>
+
+      {chain.length > 0 && (
+        <p className="mt-1 text-[10px] text-gray-500 truncate" title={chain.join(' → ')}>
+          {chain.join(' → ')}
+        </p>
+      )}
+
+      {showHistory && (
+        <ul className="mt-2 max-h-56 overflow-y-auto space-y-1 border border-gray-800 rounded p-2 bg-black/40">
+          {flattenTree(history).map(({ version, depth }) => (
+            <li key={version.id}>
+              <button
+                onClick={() => onHistoryChange(selectVersion(history, version.id))}
+                className={`w-full flex items-center gap-2 p-1 rounded text-left text-xs transition-colors ${version.id === current.id ? 'bg-gray-800 text-neon' : 'text-gray-400 hover:bg-gray-900'}`}
+                style={{ paddingLeft: `${depth * 12 + 4}px` }}
+                title="Show this version; new edits branch from it"
+              >
+                {urls[version.mediaId] && <img src={urls[version.mediaId]} alt="" className="w-10 h-6 object-cover rounded" />}
+                <span className="truncate flex-1">{version.prompt || 'Original'}</span>
+                <span className="text-[10px] text-gray-600">{new Date(version.createdAt).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })}</span>
+              </button>
+            </li>
+          ))}
+        </ul>
+      )}
     </div>
   );
 };
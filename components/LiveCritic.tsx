@@ -1,19 +1,171 @@
 import React, { useEffect, useRef, useState } from 'react';
-import { connectLiveSession } from '../services/geminiService';
-import { createPcmBlob, decode, decodeAudioData } from '../services/audioUtils';
+import { PostDraftResult } from '../services/aiPrompts';
+import { getAIProvider, LiveSessionError, LiveToolCall, LiveToolResponse } from '../services/aiProvider';
+import { decode, decodeAudioData, encodePcm16, readBands, readLevel } from '../services/audioUtils';
+import { loadSelectedPersona, selectPersona } from '../services/criticPersonas';
+import { downloadEpisode, saveEpisode } from '../services/episodes';
+import {
+  DEFAULT_FRAME_RATE,
+  FRAME_RATES,
+  FrameCapture,
+  FrameCaptureOptions,
+  FrameSourceKind,
+  startCameraFrames,
+  startImageFrames,
+} from '../services/frameCapture';
+import { createLiveController, LIVE_ERROR_MESSAGES, LiveController, toLiveError } from '../services/liveController';
+import { appendTranscript, completeTurn, createTranscript, interruptTurn, saveTranscript } from '../services/liveTranscripts';
+import { buildCriticContext, DraftAccess, LIVE_TOOL_DECLARATIONS, runLiveTool } from '../services/liveTools';
+import { CAPTURE_SAMPLE_RATE, listMicrophones, MicCapture, startMicCapture } from '../services/micCapture';
+import { createSessionRecorder, SessionRecorder } from '../services/sessionRecorder';
+import { CriticPersona, Episode, LiveTranscript, TranscriptSpeaker } from '../types';
 import { Button } from './Button';
+import { EpisodesPanel } from './EpisodesPanel';
+import { LiveTranscriptPanel } from './LiveTranscriptPanel';
+import { PersonaManager } from './PersonaManager';
 
-export const LiveCritic: React.FC = () => {
+interface LiveCriticProps {
+  onCreatePost: (draft: PostDraftResult) => void;
+  onAttachEpisode: (episode: Episode) => void;
+  // The open entry, for the critic's context and tools
+  getDraft: () => DraftAccess | null;
+  // Media ids the editor still needs; episodes holding them cannot be deleted
+  getPinnedMediaIds: () => string[];
+}
+
+interface ToolCallEntry {
+  id: string;
+  summary: string;
+  status: 'running' | 'done' | 'failed';
+}
+
+const TOOL_STATUS_ICONS: Record<ToolCallEntry['status'], string> = {
+  running: 'hourglass_top',
+  done: 'check',
+  failed: 'error_outline',
+};
+
+// Tool calls listed in the panel, newest last
+const VISIBLE_TOOL_CALLS = 3;
+
+interface AudioSettings {
+  deviceId: string; // '' for the system default
+  gain: number;
+  pushToTalk: boolean;
+  record: boolean;
+}
+
+// What the critic is shown alongside the audio
+interface FrameSettings {
+  source: FrameSourceKind | 'off';
+  frameRate: number; // frames per second, at most
+}
+
+const FRAME_SOURCES: { value: FrameSettings['source'], label: string }[] = [
+  { value: 'off', label: 'Off' },
+  { value: 'camera', label: 'Camera' },
+  { value: 'cover', label: 'Cover' },
+];
+
+type SessionStatus = 'idle' | 'connecting' | 'live' | 'reconnecting' | 'error';
+
+type LivePanel = 'transcripts' | 'episodes' | 'personas';
+
+type TurnState = 'your-turn' | 'talking' | 'critic' | 'interrupted';
+
+const TURN_LABELS: Record<TurnState, string> = {
+  'your-turn': 'Your turn',
+  'talking': 'You are talking...',
+  'critic': 'AI is debating...',
+  'interrupted': 'Critic interrupted',
+};
+
+// How long "critic interrupted" stays up
+const INTERRUPTED_MS = 1500;
+
+const AUDIO_SETTINGS_KEY = 'senhor_gotico_live_audio';
+
+const DEFAULT_AUDIO_SETTINGS: AudioSettings = { deviceId: '', gain: 1, pushToTalk: false, record: false };
+
+const FRAME_SETTINGS_KEY = 'senhor_gotico_live_video';
+
+const DEFAULT_FRAME_SETTINGS: FrameSettings = { source: 'off', frameRate: DEFAULT_FRAME_RATE };
+
+// Shorter recordings are not kept as episodes
+const MIN_EPISODE_SECONDS = 1;
+
+// The Live API answers with 24 kHz PCM
+const OUTPUT_SAMPLE_RATE = 24000;
+
+const BAR_COUNT = 7;
+
+const loadAudioSettings = (): AudioSettings => {
+  try {
+    const saved = localStorage.getItem(AUDIO_SETTINGS_KEY);
+    return saved ? { ...DEFAULT_AUDIO_SETTINGS, ...JSON.parse(saved) } : DEFAULT_AUDIO_SETTINGS;
+  } catch {
+    return DEFAULT_AUDIO_SETTINGS;
+  }
+};
+
+const loadFrameSettings = (): FrameSettings => {
+  try {
+    const saved = localStorage.getItem(FRAME_SETTINGS_KEY);
+    return saved ? { ...DEFAULT_FRAME_SETTINGS, ...JSON.parse(saved) } : DEFAULT_FRAME_SETTINGS;
+  } catch {
+    return DEFAULT_FRAME_SETTINGS;
+  }
+};
+
+const SILENT_BANDS = new Array(BAR_COUNT).fill(0);
+
+export const LiveCritic: React.FC<LiveCriticProps> = ({ onCreatePost, onAttachEpisode, getDraft, getPinnedMediaIds }) => {
   const [active, setActive] = useState(false);
-  const [status, setStatus] = useState<'idle' | 'connecting' | 'live' | 'error'>('idle');
-  const [volume, setVolume] = useState(0);
+  const [status, setStatus] = useState<SessionStatus>('idle');
+  const [sessionError, setSessionError] = useState<LiveSessionError | null>(null);
+  const [reconnectAttempt, setReconnectAttempt] = useState(0);
+  // Seconds before the session is cut off, once that is close
+  const [timeLeft, setTimeLeft] = useState<number | null>(null);
+  const [inputLevel, setInputLevel] = useState(0);
+  const [bands, setBands] = useState<number[]>(SILENT_BANDS);
   const [isSpeaking, setIsSpeaking] = useState(false);
+  const [talking, setTalking] = useState(false);
+  const [interrupted, setInterrupted] = useState(false);
+  const [audioSettings, setAudioSettings] = useState<AudioSettings>(loadAudioSettings);
+  const [microphones, setMicrophones] = useState<MediaDeviceInfo[]>([]);
+  const [frameSettings, setFrameSettings] = useState<FrameSettings>(loadFrameSettings);
+  // Self-preview of what the critic is shown
+  const [preview, setPreview] = useState<{ stream: MediaStream | null, image: string | null } | null>(null);
+  const [frameError, setFrameError] = useState<string | null>(null);
+  const [transcript, setTranscript] = useState<LiveTranscript | null>(null);
+  const [panel, setPanel] = useState<LivePanel | null>(null);
+  const [persona, setPersona] = useState<CriticPersona>(loadSelectedPersona);
+  const [recording, setRecording] = useState(false);
+  const [latestEpisodeId, setLatestEpisodeId] = useState<string | null>(null);
+  const [toolCalls, setToolCalls] = useState<ToolCallEntry[]>([]);
   
   const audioContextRef = useRef<AudioContext | null>(null);
-  const sessionPromiseRef = useRef<Promise<any> | null>(null);
-  const inputSourceRef = useRef<MediaStreamAudioSourceNode | null>(null);
-  const processorRef = useRef<ScriptProcessorNode | null>(null);
+  const outputAnalyserRef = useRef<AnalyserNode | null>(null);
+  const controllerRef = useRef<LiveController | null>(null);
+  const captureRef = useRef<MicCapture | null>(null);
+  const frameCaptureRef = useRef<FrameCapture | null>(null);
+  // Bumped on every stop, so a start that finishes late can tell it is stale
+  const frameStartRef = useRef(0);
+  // Bumped on every disconnect, so a session start cancelled mid-way stops there
+  const sessionStartRef = useRef(0);
+  const previewVideoRef = useRef<HTMLVideoElement>(null);
+  const meterFrameRef = useRef<number | null>(null);
   const nextStartTimeRef = useRef<number>(0);
+  // Critic audio queued on the playback clock, so barge-in can cut it off
+  const scheduledRef = useRef<Set<AudioBufferSourceNode>>(new Set());
+  const interruptedTimerRef = useRef<ReturnType<typeof setTimeout> | null>(null);
+  // Push-to-talk is fixed when the session is set up
+  const pushToTalkRef = useRef(false);
+  const talkingRef = useRef(false);
+  // Source of truth for the session's transcript; state mirrors it for rendering
+  const transcriptRef = useRef<LiveTranscript | null>(null);
+  // Set while the session is being recorded; times are on the playback clock
+  const recorderRef = useRef<SessionRecorder | null>(null);
 
   useEffect(() => {
     return () => {
@@ -21,117 +173,423 @@ export const LiveCritic: React.FC = () => {
     };
   }, []);
 
-  const disconnect = () => {
-    if (processorRef.current) {
-      processorRef.current.disconnect();
-      processorRef.current = null;
+  // The preview element only exists while a camera is on
+  useEffect(() => {
+    if (previewVideoRef.current) previewVideoRef.current.srcObject = preview?.stream || null;
+  }, [preview]);
+
+  // Keep the mic list current when devices are plugged in or out
+  useEffect(() => {
+    const refresh = () => listMicrophones().then(setMicrophones).catch(() => setMicrophones([]));
+    refresh();
+    navigator.mediaDevices?.addEventListener('devicechange', refresh);
+    return () => navigator.mediaDevices?.removeEventListener('devicechange', refresh);
+  }, []);
+
+  const updateAudioSettings = (changes: Partial<AudioSettings>) => {
+    const next = { ...audioSettings, ...changes };
+    setAudioSettings(next);
+    localStorage.setItem(AUDIO_SETTINGS_KEY, JSON.stringify(next));
+    return next;
+  };
+
+  const togglePanel = (next: LivePanel) => setPanel(panel === next ? null : next);
+
+  // Takes effect from the next session
+  const handleSelectPersona = (next: CriticPersona) => {
+    selectPersona(next.id);
+    setPersona(next);
+  };
+
+  const updateFrameSettings = (changes: Partial<FrameSettings>) => {
+    const next = { ...frameSettings, ...changes };
+    setFrameSettings(next);
+    localStorage.setItem(FRAME_SETTINGS_KEY, JSON.stringify(next));
+    return next;
+  };
+
+  const updateTranscript = (update: (transcript: LiveTranscript) => LiveTranscript, persist = false) => {
+    if (!transcriptRef.current) return;
+    transcriptRef.current = update(transcriptRef.current);
+    setTranscript(transcriptRef.current);
+    if (persist) {
+      saveTranscript(transcriptRef.current).catch(e => console.error("Failed to save transcript", e));
+    }
+  };
+
+  // Bars follow the critic while it talks and the mic otherwise
+  const runMeters = () => {
+    const ctx = audioContextRef.current;
+    const speaking = !!ctx && ctx.currentTime < nextStartTimeRef.current;
+    const input = captureRef.current?.analyser;
+    const output = outputAnalyserRef.current;
+    const source = speaking ? output : input;
+
+    setIsSpeaking(speaking);
+    setInputLevel(input ? readLevel(input) : 0);
+    setBands(source ? readBands(source, BAR_COUNT) : SILENT_BANDS);
+    meterFrameRef.current = requestAnimationFrame(runMeters);
+  };
+
+  // Stops everything already scheduled and restarts the playback clock
+  const flushPlayback = () => {
+    // What was cut off never reached the listener, so it is not in the recording either
+    if (audioContextRef.current) recorderRef.current?.cutOutput(audioContextRef.current.currentTime);
+    scheduledRef.current.forEach(source => {
+      source.onended = null;
+      source.stop();
+    });
+    scheduledRef.current.clear();
+    nextStartTimeRef.current = 0;
+  };
+
+  const handleInterrupted = () => {
+    flushPlayback();
+    updateTranscript(interruptTurn, true);
+    setInterrupted(true);
+    if (interruptedTimerRef.current) clearTimeout(interruptedTimerRef.current);
+    interruptedTimerRef.current = setTimeout(() => setInterrupted(false), INTERRUPTED_MS);
+  };
+
+  // Runs what the critic asked for against the app and answers all calls together
+  const handleToolCalls = async (calls: LiveToolCall[]) => {
+    setToolCalls(prev => [...prev, ...calls.map(call => ({ id: call.id, summary: call.name, status: 'running' as const }))]);
+    const responses: LiveToolResponse[] = [];
+    for (const call of calls) {
+      const outcome = await runLiveTool(call, getDraft());
+      if (outcome.failed) console.warn(`Live tool ${call.name} failed`, outcome.response);
+      setToolCalls(prev => prev.map(entry => entry.id === call.id
+        ? { ...entry, summary: outcome.summary, status: outcome.failed ? 'failed' : 'done' }
+        : entry));
+      responses.push({ id: call.id, name: call.name, response: outcome.response });
+    }
+    controllerRef.current?.sendToolResponses(responses);
+  };
+
+  const startTalking = () => {
+    if (!pushToTalkRef.current || talkingRef.current || !controllerRef.current) return;
+    talkingRef.current = true;
+    setTalking(true);
+    // Talking over the critic cuts it off right away, without waiting for the server
+    if (scheduledRef.current.size > 0) handleInterrupted();
+    controllerRef.current.startActivity();
+  };
+
+  const stopTalking = () => {
+    if (!talkingRef.current) return;
+    talkingRef.current = false;
+    setTalking(false);
+    controllerRef.current?.endActivity();
+  };
+
+  // Hold Space to talk, unless typing somewhere
+  useEffect(() => {
+    if (!active || !pushToTalkRef.current) return;
+    const typing = (e: KeyboardEvent) =>
+      e.target instanceof HTMLElement && (e.target.isContentEditable || ['INPUT', 'TEXTAREA', 'SELECT'].includes(e.target.tagName));
+    const onKeyDown = (e: KeyboardEvent) => {
+      if (e.code !== 'Space' || e.repeat || typing(e)) return;
+      e.preventDefault();
+      startTalking();
+    };
+    const onKeyUp = (e: KeyboardEvent) => {
+      if (e.code === 'Space') stopTalking();
+    };
+    window.addEventListener('keydown', onKeyDown);
+    window.addEventListener('keyup', onKeyUp);
+    return () => {
+      window.removeEventListener('keydown', onKeyDown);
+      window.removeEventListener('keyup', onKeyUp);
+    };
+  }, [active]);
+
+  // False when the session ended while the mic was opening; the mic is closed again
+  const startCapture = async (settings: AudioSettings): Promise<boolean> => {
+    const start = sessionStartRef.current;
+    captureRef.current?.stop();
+    captureRef.current = null;
+    const capture = await startMicCapture({
+      deviceId: settings.deviceId || undefined,
+      gain: settings.gain,
+      onChunk: (samples) => {
+        // With push-to-talk the mic is only open while the button is held
+        if (pushToTalkRef.current && !talkingRef.current) return;
+        const ctx = audioContextRef.current;
+        if (ctx) recorderRef.current?.addInput(samples, CAPTURE_SAMPLE_RATE, ctx.currentTime - samples.length / CAPTURE_SAMPLE_RATE);
+        controllerRef.current?.sendAudio(encodePcm16(samples, CAPTURE_SAMPLE_RATE));
+      },
+    });
+    if (start !== sessionStartRef.current) {
+      capture.stop();
+      return false;
     }
-    if (inputSourceRef.current) {
-      inputSourceRef.current.disconnect();
-      inputSourceRef.current = null;
+    captureRef.current = capture;
+    // Device labels become readable once access is granted
+    listMicrophones().then(setMicrophones).catch(() => {});
+    return true;
+  };
+
+  const stopFrames = () => {
+    frameStartRef.current++;
+    frameCaptureRef.current?.stop();
+    frameCaptureRef.current = null;
+    setPreview(null);
+  };
+
+  // A missing camera or cover leaves the session running on audio alone
+  const startFrames = async (settings: FrameSettings) => {
+    stopFrames();
+    setFrameError(null);
+    if (settings.source === 'off') return;
+    const start = frameStartRef.current;
+    const options: FrameCaptureOptions = {
+      frameRate: settings.frameRate,
+      onFrame: (frame) => {
+        controllerRef.current?.sendVideo(frame);
+      },
+    };
+    try {
+      const cover = settings.source === 'cover' ? getDraft()?.readDraft().coverImage : null;
+      if (settings.source === 'cover' && !cover) {
+        setFrameError('The draft has no cover yet');
+        return;
+      }
+      const capture = cover ? await startImageFrames(cover, options) : await startCameraFrames(options);
+      // Stopped or switched while the camera was opening
+      if (start !== frameStartRef.current) {
+        capture.stop();
+        return;
+      }
+      frameCaptureRef.current = capture;
+      setPreview({ stream: capture.stream, image: cover || null });
+    } catch (err) {
+      console.error("Failed to start video frames", err);
+      setFrameError(settings.source === 'cover'
+        ? 'Could not read the cover'
+        : toLiveError(err).kind === 'permission' ? 'Camera access blocked' : 'Camera unavailable');
     }
+  };
+
+  const handleFrameSettingsChange = (changes: Partial<FrameSettings>) => {
+    const next = updateFrameSettings(changes);
+    if (controllerRef.current) startFrames(next);
+  };
+
+  const handleMicrophoneChange = async (deviceId: string) => {
+    const next = updateAudioSettings({ deviceId });
+    if (!captureRef.current) return;
+    try {
+      await startCapture(next);
+    } catch (err) {
+      console.error("Failed to switch microphone", err);
+    }
+  };
+
+  const handleGainChange = (gain: number) => {
+    updateAudioSettings({ gain });
+    captureRef.current?.setGain(gain);
+  };
+
+  // Mixes the recording down, keeps it as an episode and hands over the WAV
+  const saveRecording = async (recorder: SessionRecorder, transcriptId?: string) => {
+    const recording = recorder.finish();
+    if (recording.duration < MIN_EPISODE_SECONDS) return;
+    try {
+      const episode = await saveEpisode(recording, transcriptId);
+      setLatestEpisodeId(episode.id);
+      await downloadEpisode(episode);
+    } catch (e) {
+      console.error("Failed to save episode", e);
+    }
+  };
+
+  // Ends the session and releases everything it held: the connection, mic and
+  // camera tracks, both audio contexts. An error leaves its message on screen.
+  const disconnect = (error?: LiveSessionError) => {
+    sessionStartRef.current++;
+    const controller = controllerRef.current;
+    controllerRef.current = null;
+    controller?.close();
+    const transcriptId = transcriptRef.current?.entries.length ? transcriptRef.current.id : undefined;
+    // Keep the session's transcript, unless nothing was said
+    if (transcriptRef.current) {
+      if (transcriptRef.current.entries.length > 0) {
+        updateTranscript(t => ({ ...completeTurn(t), endedAt: new Date().toISOString() }), true);
+      } else {
+        setTranscript(null);
+      }
+      transcriptRef.current = null;
+    }
+    flushPlayback();
+    if (recorderRef.current) {
+      saveRecording(recorderRef.current, transcriptId);
+      recorderRef.current = null;
+    }
+    talkingRef.current = false;
+    if (interruptedTimerRef.current) {
+      clearTimeout(interruptedTimerRef.current);
+      interruptedTimerRef.current = null;
+    }
+    if (meterFrameRef.current !== null) {
+      cancelAnimationFrame(meterFrameRef.current);
+      meterFrameRef.current = null;
+    }
+    if (captureRef.current) {
+      captureRef.current.stop();
+      captureRef.current = null;
+    }
+    stopFrames();
+    setFrameError(null);
     if (audioContextRef.current) {
       audioContextRef.current.close();
       audioContextRef.current = null;
+      outputAnalyserRef.current = null;
     }
     setActive(false);
-    setStatus('idle');
+    setStatus(error ? 'error' : 'idle');
+    setSessionError(error || null);
+    setReconnectAttempt(0);
+    setTimeLeft(null);
+    setRecording(false);
     setIsSpeaking(false);
-    setVolume(0);
+    setTalking(false);
+    setInterrupted(false);
+    setInputLevel(0);
+    setBands(SILENT_BANDS);
   };
 
   const startSession = async () => {
+    const start = sessionStartRef.current;
     setStatus('connecting');
+    setSessionError(null);
+    transcriptRef.current = createTranscript();
+    setTranscript(transcriptRef.current);
+    setToolCalls([]);
     
     try {
-      audioContextRef.current = new (window.AudioContext || (window as any).webkitAudioContext)({
-        sampleRate: 24000 // Match output rate
+      // Without the archive the critic can still talk, just without background
+      const context = await buildCriticContext(getDraft()).catch(e => {
+        console.error("Failed to gather critic context", e);
+        return undefined;
       });
-      
-      const stream = await navigator.mediaDevices.getUserMedia({ audio: {
-        sampleRate: 16000,
-        channelCount: 1,
-        echoCancellation: true
-      }});
-
-      const inputContext = new AudioContext({ sampleRate: 16000 });
-      inputSourceRef.current = inputContext.createMediaStreamSource(stream);
-      processorRef.current = inputContext.createScriptProcessor(4096, 1, 1);
-
-      sessionPromiseRef.current = connectLiveSession(
-        () => {
-          setStatus('live');
-          setActive(true);
+      // Cancelled while the context was gathered
+      if (start !== sessionStartRef.current) return;
+
+      const ctx = new AudioContext();
+      audioContextRef.current = ctx;
+      nextStartTimeRef.current = 0;
+      pushToTalkRef.current = audioSettings.pushToTalk;
+      // Everything the critic says passes through the analyser on its way out
+      const outputAnalyser = ctx.createAnalyser();
+      outputAnalyser.fftSize = 256;
+      outputAnalyser.connect(ctx.destination);
+      outputAnalyserRef.current = outputAnalyser;
+      recorderRef.current = audioSettings.record ? createSessionRecorder(ctx.currentTime) : null;
+      setRecording(audioSettings.record);
+
+      // Cancelled while the mic was opening; disconnect already closed the context
+      if (!await startCapture(audioSettings)) return;
+      startFrames(frameSettings);
+
+      const controller = createLiveController(getAIProvider(), {
+        onStateChange: (state, attempt) => {
+          setStatus(state);
+          setReconnectAttempt(attempt);
+          if (state === 'live') setActive(true);
+          // Whatever was being said is lost with the connection
+          if (state === 'reconnecting') updateTranscript(completeTurn, true);
         },
-        async (audioBlob) => {
-          if (!audioContextRef.current) return;
-          
-          // Handle audio out
+        onTimeWarning: setTimeLeft,
+        onEnd: (error) => {
+          // Closed from here, so the cleanup already ran
+          if (controllerRef.current !== controller) return;
+          if (error) console.error("Live session ended", error);
+          disconnect(error);
+        },
+        onAudio: async (audioBlob) => {
           const ctx = audioContextRef.current;
+          if (!ctx || !outputAnalyserRef.current || !audioBlob.data) return;
+          
+          // Queue the chunk right after whatever is already playing
           nextStartTimeRef.current = Math.max(nextStartTimeRef.current, ctx.currentTime);
           
           try {
             const audioBuffer = await decodeAudioData(
               decode(audioBlob.data),
               ctx,
-              24000,
+              OUTPUT_SAMPLE_RATE,
               1
             );
             
             const source = ctx.createBufferSource();
             source.buffer = audioBuffer;
-            source.connect(ctx.destination);
+            source.connect(outputAnalyserRef.current);
+            source.onended = () => scheduledRef.current.delete(source);
             source.start(nextStartTimeRef.current);
+            scheduledRef.current.add(source);
+            recorderRef.current?.addOutput(audioBuffer.getChannelData(0), nextStartTimeRef.current);
             nextStartTimeRef.current += audioBuffer.duration;
-            
-            // Simple visualizer simulation
-            setIsSpeaking(true);
-            setVolume(0.8); 
-            setTimeout(() => {
-                setVolume(0);
-                setIsSpeaking(false);
-            }, audioBuffer.duration * 1000);
-            
           } catch (e) {
             console.error("Error decoding audio", e);
           }
         },
-        (err) => {
-          console.error(err);
-          setStatus('error');
-          disconnect();
+        onTranscript: (speaker: TranscriptSpeaker, text: string) => {
+          updateTranscript(t => appendTranscript(t, speaker, text));
         },
-        () => {
-          setStatus('idle');
-          disconnect();
-        }
-      );
-
-      processorRef.current.onaudioprocess = (e) => {
-        const inputData = e.inputBuffer.getChannelData(0);
-        const pcmBlob = createPcmBlob(inputData);
-        
-        sessionPromiseRef.current?.then(session => {
-          session.sendRealtimeInput({ media: pcmBlob });
-        });
-      };
-
-      inputSourceRef.current.connect(processorRef.current);
-      processorRef.current.connect(inputContext.destination);
+        // A finished exchange is a good moment to save
+        onTurnComplete: () => {
+          updateTranscript(completeTurn, true);
+        },
+        onInterrupted: handleInterrupted,
+        onToolCall: handleToolCalls,
+      }, { pushToTalk: audioSettings.pushToTalk, persona, context, tools: LIVE_TOOL_DECLARATIONS });
+      controllerRef.current = controller;
 
+      meterFrameRef.current = requestAnimationFrame(runMeters);
     } catch (err) {
       console.error("Failed to start live session", err);
-      setStatus('error');
+      // A cancelled start has nothing left to clean up or report
+      if (start === sessionStartRef.current) disconnect(toLiveError(err));
     }
   };
 
+  if (!getAIProvider().capabilities.has('live')) return null;
+
+  const turnState: TurnState = interrupted ? 'interrupted' : talking ? 'talking' : isSpeaking ? 'critic' : 'your-turn';
+
   return (
     <div className="fixed bottom-6 right-6 z-50 flex flex-col items-end gap-3">
+      {panel === 'transcripts' && (
+        <LiveTranscriptPanel live={transcript} onCreatePost={onCreatePost} onClose={() => setPanel(null)} />
+      )}
+      {panel === 'episodes' && (
+        <EpisodesPanel
+          latestId={latestEpisodeId}
+          onAttach={onAttachEpisode}
+          onClose={() => setPanel(null)}
+          getPinnedIds={getPinnedMediaIds}
+        />
+      )}
+      {panel === 'personas' && (
+        <PersonaManager selectedId={persona.id} onSelect={handleSelectPersona} onClose={() => setPanel(null)} />
+      )}
+
+      {status === 'error' && sessionError && (
+        <div className="bg-black/95 border border-red-500 rounded-xl p-3 w-64 flex items-start gap-2 animate-fade-in">
+          <span className="material-icons text-red-500 text-sm">error_outline</span>
+          <p className="flex-1 text-xs text-gray-300">{LIVE_ERROR_MESSAGES[sessionError.kind]}</p>
+          <button onClick={() => { setSessionError(null); setStatus('idle'); }} className="text-gray-500 hover:text-white" title="Dismiss">
+            <span className="material-icons text-sm">close</span>
+          </button>
+        </div>
+      )}
+
       {/* Status / Visualizer Panel */}
-      <div className={`transition-all duration-300 transform ${status === 'live' ? 'opacity-100 translate-y-0' : 'opacity-0 translate-y-4 pointer-events-none'}`}>
+      <div className={`transition-all duration-300 transform ${status === 'live' || status === 'reconnecting' ? 'opacity-100 translate-y-0' : 'opacity-0 translate-y-4 pointer-events-none'}`}>
         <div className="bg-black/90 border border-acid p-4 rounded-xl shadow-[0_0_20px_rgba(204,255,0,0.2)] w-64">
           <div className="flex justify-between items-center mb-3">
              <span className="text-acid text-xs font-bold font-mono uppercase tracking-widest">Live Critic</span>
+             {recording && <span className="ml-auto mr-2 text-red-500 text-[10px] font-bold font-mono uppercase">Rec</span>}
              <span className="flex h-2 w-2 relative">
                 <span className="animate-ping absolute inline-flex h-full w-full rounded-full bg-acid opacity-75"></span>
                 <span className="relative inline-flex rounded-full h-2 w-2 bg-acid"></span>
@@ -140,25 +598,184 @@ export const LiveCritic: React.FC = () => {
           
           <div className="flex items-center justify-center gap-1 h-12 mb-2">
              {/* Visualizer bars */}
-             {[1,2,3,4,5,6,7].map(i => (
+             {bands.map((level, i) => (
                <div 
                  key={i} 
-                 className="w-1.5 bg-acid rounded-full transition-all duration-75 ease-in-out"
+                 className={`w-1.5 rounded-full transition-all duration-75 ease-in-out ${isSpeaking ? 'bg-acid' : 'bg-neon'}`}
                  style={{ 
-                    height: volume > 0.01 ? `${Math.max(15, Math.random() * 100)}%` : '15%',
-                    opacity: volume > 0.01 ? 1 : 0.5
+                    height: `${Math.max(15, level * 100)}%`,
+                    opacity: level > 0.05 ? 1 : 0.5
                  }}
                />
              ))}
           </div>
-          <p className="text-gray-400 text-[10px] font-mono text-center uppercase">
-             {isSpeaking ? "AI is debating..." : "Listening..."}
-          </p>
+          {status === 'reconnecting' ? (
+            <p className="text-[10px] font-mono text-center uppercase text-yellow-400 animate-pulse">
+               Reconnecting... (attempt {reconnectAttempt})
+            </p>
+          ) : (
+            <p className={`text-[10px] font-mono text-center uppercase ${turnState === 'interrupted' ? 'text-red-400' : turnState === 'your-turn' ? 'text-neon' : 'text-gray-400'}`}>
+               {TURN_LABELS[turnState]}
+            </p>
+          )}
+          {timeLeft !== null && (
+            <p className="mt-2 text-[10px] font-mono text-center uppercase text-yellow-400">
+               Session ends in {Math.floor(timeLeft / 60)}:{String(timeLeft % 60).padStart(2, '0')}
+            </p>
+          )}
+
+          {toolCalls.length > 0 && (
+            <ul className="mt-3 space-y-1">
+              {toolCalls.slice(-VISIBLE_TOOL_CALLS).map(call => (
+                <li key={call.id} className="flex items-center gap-1.5 text-[10px] font-mono text-gray-400" title={call.summary}>
+                  <span className={`material-icons text-xs ${call.status === 'failed' ? 'text-red-400' : call.status === 'done' ? 'text-acid' : 'text-gray-500 animate-pulse'}`}>
+                    {TOOL_STATUS_ICONS[call.status]}
+                  </span>
+                  <span className="truncate">{call.summary}</span>
+                </li>
+              ))}
+            </ul>
+          )}
+
+          {(preview || frameError) && (
+            <div className="mt-3 h-28 bg-black border border-gray-800 rounded overflow-hidden relative flex items-center justify-center">
+              {preview?.stream ? (
+                <video ref={previewVideoRef} autoPlay muted playsInline className="w-full h-full object-cover -scale-x-100" />
+              ) : preview?.image ? (
+                <img src={preview.image} alt="Cover shown to the critic" className="h-full object-contain" />
+              ) : (
+                <span className="text-[10px] font-mono text-red-400 uppercase">{frameError}</span>
+              )}
+              {preview && (
+                <span className="absolute top-1 left-1 bg-black/70 px-1.5 py-0.5 rounded text-[10px] text-acid font-bold font-mono uppercase">
+                  Critic sees · {frameSettings.frameRate} fps
+                </span>
+              )}
+            </div>
+          )}
+
+          {active && pushToTalkRef.current && (
+            <button
+              onPointerDown={(e) => {
+                e.currentTarget.setPointerCapture(e.pointerId);
+                startTalking();
+              }}
+              onPointerUp={stopTalking}
+              onPointerCancel={stopTalking}
+              className={`mt-3 w-full py-2 rounded border text-xs font-bold uppercase select-none touch-none transition-colors ${talking ? 'bg-neon text-black border-neon' : 'border-gray-600 text-gray-300 hover:border-neon'}`}
+              title="Hold to talk (or hold Space)"
+            >
+              {talking ? 'Release to send' : 'Hold to talk'}
+            </button>
+          )}
+
+          {/* Input settings */}
+          <div className="mt-3 pt-3 border-t border-gray-800 space-y-2">
+            <div className="flex items-center gap-2">
+              <span className="material-icons text-gray-500 text-sm">mic</span>
+              <select
+                value={audioSettings.deviceId}
+                onChange={e => handleMicrophoneChange(e.target.value)}
+                className="flex-1 min-w-0 bg-transparent text-[10px] text-gray-300 font-mono outline-none cursor-pointer truncate"
+                title="Microphone"
+              >
+                <option value="">Default microphone</option>
+                {microphones.map((mic, i) => (
+                  <option key={mic.deviceId} value={mic.deviceId}>{mic.label || `Microphone ${i + 1}`}</option>
+                ))}
+              </select>
+            </div>
+            {/* Input meter */}
+            <div className="h-1 bg-gray-800 rounded overflow-hidden" title="Input level">
+              <div
+                className={`h-full transition-[width] duration-75 ${inputLevel > 0.9 ? 'bg-red-500' : 'bg-neon'}`}
+                style={{ width: `${inputLevel * 100}%` }}
+              />
+            </div>
+            <label className="flex items-center gap-2 text-[10px] text-gray-500 font-mono uppercase">
+              Gain
+              <input
+                type="range"
+                min={0}
+                max={3}
+                step={0.1}
+                value={audioSettings.gain}
+                onChange={e => handleGainChange(Number(e.target.value))}
+                className="flex-1 accent-neon"
+              />
+              <span className="w-8 text-right">{audioSettings.gain.toFixed(1)}×</span>
+            </label>
+            <div className="flex items-center gap-2">
+              <span className="material-icons text-gray-500 text-sm">videocam</span>
+              <div className="flex flex-1 gap-1">
+                {FRAME_SOURCES.map(option => (
+                  <button
+                    key={option.value}
+                    onClick={() => handleFrameSettingsChange({ source: option.value })}
+                    className={`flex-1 text-[10px] font-bold font-mono uppercase py-0.5 rounded border transition-colors ${frameSettings.source === option.value ? 'border-acid text-acid' : 'border-gray-700 text-gray-400 hover:border-gray-500'}`}
+                  >
+                    {option.label}
+                  </button>
+                ))}
+              </div>
+              <select
+                value={frameSettings.frameRate}
+                onChange={e => handleFrameSettingsChange({ frameRate: Number(e.target.value) })}
+                disabled={frameSettings.source === 'off'}
+                className="bg-transparent text-[10px] text-gray-300 font-mono outline-none cursor-pointer disabled:opacity-50"
+                title="Frame rate cap"
+              >
+                {FRAME_RATES.map(rate => (
+                  <option key={rate} value={rate}>{rate} fps</option>
+                ))}
+              </select>
+            </div>
+          </div>
         </div>
       </div>
       
       {/* Main Toggle Button */}
-      <div className="relative group">
+      <div className="flex items-center gap-3">
+        <button
+          onClick={() => togglePanel('personas')}
+          disabled={status !== 'idle' && status !== 'error'}
+          className={`h-10 max-w-[9rem] px-3 rounded-full bg-black/80 border flex items-center gap-1 text-[10px] font-bold font-mono uppercase transition-colors disabled:opacity-50 ${panel === 'personas' ? 'border-acid text-acid' : 'border-gray-700 text-gray-400 hover:text-acid'}`}
+          title={`Critic persona: ${persona.name}`}
+        >
+          <span className="material-icons text-sm">theater_comedy</span>
+          <span className="truncate">{persona.name}</span>
+        </button>
+        <button
+          onClick={() => updateAudioSettings({ pushToTalk: !audioSettings.pushToTalk })}
+          disabled={status !== 'idle' && status !== 'error'}
+          className={`h-10 px-3 rounded-full bg-black/80 border text-[10px] font-bold font-mono uppercase transition-colors disabled:opacity-50 ${audioSettings.pushToTalk ? 'border-neon text-neon' : 'border-gray-700 text-gray-400 hover:text-neon'}`}
+          title={audioSettings.pushToTalk ? "Push-to-talk: hold the button or Space to speak" : "Open mic: the critic hears everything and you can cut in any time"}
+        >
+          {audioSettings.pushToTalk ? 'PTT' : 'Open mic'}
+        </button>
+        <button
+          onClick={() => updateAudioSettings({ record: !audioSettings.record })}
+          disabled={status !== 'idle' && status !== 'error'}
+          className={`w-10 h-10 rounded-full bg-black/80 border flex items-center justify-center transition-colors disabled:opacity-50 ${audioSettings.record ? 'border-red-500 text-red-500' : 'border-gray-700 text-gray-400 hover:text-red-500'}`}
+          title={audioSettings.record ? "Recording on: the session is saved as an episode" : "Record the next session as an episode"}
+        >
+          <span className="material-icons text-lg">fiber_manual_record</span>
+        </button>
+        <button
+          onClick={() => togglePanel('episodes')}
+          className={`w-10 h-10 rounded-full bg-black/80 border flex items-center justify-center transition-colors ${panel === 'episodes' ? 'border-acid text-acid' : 'border-gray-700 text-gray-400 hover:text-acid'}`}
+          title="Episodes"
+        >
+          <span className="material-icons text-lg">podcasts</span>
+        </button>
+        <button
+          onClick={() => togglePanel('transcripts')}
+          className={`w-10 h-10 rounded-full bg-black/80 border flex items-center justify-center transition-colors ${panel === 'transcripts' ? 'border-acid text-acid' : 'border-gray-700 text-gray-400 hover:text-acid'}`}
+          title="Transcripts"
+        >
+          <span className="material-icons text-lg">subject</span>
+        </button>
+        <div className="relative group">
           {status === 'idle' && (
             <div className="absolute right-full mr-4 top-1/2 -translate-y-1/2 bg-white text-black text-xs font-bold py-1 px-3 rounded whitespace-nowrap opacity-0 group-hover:opacity-100 transition-opacity shadow-lg pointer-events-none">
                 Debate Music
@@ -168,7 +785,7 @@ export const LiveCritic: React.FC = () => {
 
           <Button 
             variant={active ? 'danger' : 'neon'} 
-            onClick={active ? disconnect : startSession}
+            onClick={status === 'idle' || status === 'error' ? startSession : () => disconnect()}
             className={`rounded-full w-16 h-16 shadow-[0_0_15px_rgba(0,0,0,0.5)] flex items-center justify-center !p-0 transition-transform duration-200 ${active ? 'scale-110' : 'hover:scale-105'}`}
             title={active ? "Disconnect" : "Talk to Live Critic"}
           >
@@ -183,6 +800,7 @@ export const LiveCritic: React.FC = () => {
                 <span className="material-icons text-3xl">mic</span>
             )}
           </Button>
+        </div>
       </div>
     </div>
   );
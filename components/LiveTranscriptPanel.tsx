@@ -0,0 +1,165 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { PostDraftResult } from '../services/aiPrompts';
+import { getAIProvider } from '../services/aiProvider';
+import {
+  deleteTranscript,
+  entryOffset,
+  listTranscripts,
+  speakerLabel,
+  transcriptToMarkdown,
+  transcriptToText,
+} from '../services/liveTranscripts';
+import { StructuredOutputError } from '../services/structuredOutput';
+import { LiveTranscript } from '../types';
+import { Button } from './Button';
+
+interface LiveTranscriptPanelProps {
+  // The session in progress, if any; shown until another one is picked
+  live: LiveTranscript | null;
+  onCreatePost: (draft: PostDraftResult) => void;
+  onClose: () => void;
+}
+
+const downloadText = (text: string, filename: string, type: string) => {
+  const url = URL.createObjectURL(new Blob([text], { type }));
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = filename;
+  link.click();
+  setTimeout(() => URL.revokeObjectURL(url), 1000);
+};
+
+export const LiveTranscriptPanel: React.FC<LiveTranscriptPanelProps> = ({ live, onCreatePost, onClose }) => {
+  const [saved, setSaved] = useState<LiveTranscript[]>([]);
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const [drafting, setDrafting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const listRef = useRef<HTMLDivElement>(null);
+
+  // Reload when a session starts or ends, so the finished one shows up in the list
+  useEffect(() => {
+    listTranscripts()
+      .then(setSaved)
+      .catch(e => console.error("Failed to load transcripts", e));
+  }, [live?.id, live?.endedAt]);
+
+  const selected = (selectedId && selectedId !== live?.id ? saved.find(t => t.id === selectedId) : null)
+    || live
+    || saved[0]
+    || null;
+  const isLive = !!live && selected?.id === live.id && !live.endedAt;
+
+  // Follow the conversation while it is happening
+  useEffect(() => {
+    if (isLive && listRef.current) listRef.current.scrollTop = listRef.current.scrollHeight;
+  }, [isLive, selected?.entries]);
+
+  const filename = (extension: string) =>
+    `senhor-gotico-debate-${selected!.startedAt.slice(0, 16).replace(/[:T]/g, '-')}.${extension}`;
+
+  const handleDelete = async () => {
+    if (!selected || isLive) return;
+    if (!window.confirm("Delete this transcript?")) return;
+    try {
+      await deleteTranscript(selected.id);
+      setSaved(prev => prev.filter(t => t.id !== selected.id));
+      setSelectedId(null);
+    } catch (e) {
+      console.error("Failed to delete transcript", e);
+    }
+  };
+
+  const handleCreatePost = async () => {
+    if (!selected) return;
+    setDrafting(true);
+    setError(null);
+    try {
+      onCreatePost(await getAIProvider().draftFromTranscript(transcriptToText(selected)));
+    } catch (e) {
+      console.error("Transcript draft failed", e);
+      setError(e instanceof StructuredOutputError
+        ? `The AI reply could not be turned into a draft:\n${e.issues.join('\n')}`
+        : "Could not turn this debate into a post.");
+    } finally {
+      setDrafting(false);
+    }
+  };
+
+  const sessions = live && !saved.some(t => t.id === live.id) ? [live, ...saved] : saved;
+  const hasText = !!selected?.entries.some(entry => entry.text.trim());
+
+  return (
+    <div className="bg-black/95 border border-gray-700 rounded-xl shadow-2xl w-96 max-w-[calc(100vw-3rem)] flex flex-col max-h-[60vh] animate-fade-in">
+      <div className="flex items-center gap-2 p-3 border-b border-gray-800">
+        <span className="material-icons text-acid text-sm">subject</span>
+        <select
+          value={selected?.id || ''}
+          onChange={e => setSelectedId(e.target.value)}
+          className="flex-1 bg-transparent text-xs text-gray-300 font-mono outline-none cursor-pointer"
+          title="Session"
+        >
+          {sessions.length === 0 && <option value="">No sessions yet</option>}
+          {sessions.map(t => (
+            <option key={t.id} value={t.id}>
+              {t.id === live?.id && !live.endedAt ? 'Live now' : new Date(t.startedAt).toLocaleString()}
+            </option>
+          ))}
+        </select>
+        <button onClick={onClose} className="text-gray-500 hover:text-white" title="Close">
+          <span className="material-icons text-sm">close</span>
+        </button>
+      </div>
+
+      <div ref={listRef} className="flex-1 overflow-y-auto p-3 space-y-3 text-sm">
+        {!hasText ? (
+          <p className="text-gray-600 text-xs font-mono text-center py-6">
+            {isLive ? 'Start talking; the transcript appears here.' : 'Nothing was said in this session.'}
+          </p>
+        ) : (
+          selected!.entries.filter(entry => entry.text.trim()).map((entry, i) => (
+            <div key={i} className={entry.speaker === 'critic' ? 'pl-4' : ''}>
+              <div className="flex items-center gap-2 text-[10px] font-bold uppercase font-mono">
+                <span className={entry.speaker === 'critic' ? 'text-acid' : 'text-neon'}>{speakerLabel(entry.speaker)}</span>
+                <span className="text-gray-600">{entryOffset(selected!, entry)}</span>
+                {entry.interrupted && <span className="text-red-400">cut off</span>}
+              </div>
+              <p className="text-gray-300 whitespace-pre-wrap">{entry.text.trim()}</p>
+            </div>
+          ))
+        )}
+      </div>
+
+      {error && <div className="text-red-400 text-xs px-3 pb-2 whitespace-pre-line">{error}</div>}
+
+      <div className="flex items-center gap-1 p-3 border-t border-gray-800">
+        <button
+          onClick={() => downloadText(transcriptToText(selected!), filename('txt'), 'text/plain')}
+          disabled={!hasText}
+          className="text-[10px] font-bold uppercase px-2 py-1 rounded border border-gray-700 text-gray-400 hover:text-white disabled:opacity-50"
+          title="Download as plain text"
+        >
+          TXT
+        </button>
+        <button
+          onClick={() => downloadText(transcriptToMarkdown(selected!), filename('md'), 'text/markdown')}
+          disabled={!hasText}
+          className="text-[10px] font-bold uppercase px-2 py-1 rounded border border-gray-700 text-gray-400 hover:text-white disabled:opacity-50"
+          title="Download as Markdown"
+        >
+          MD
+        </button>
+        <button
+          onClick={handleDelete}
+          disabled={!selected || isLive}
+          className="text-gray-500 hover:text-red-500 p-1 disabled:opacity-50"
+          title="Delete transcript"
+        >
+          <span className="material-icons text-sm">delete</span>
+        </button>
+        <Button onClick={handleCreatePost} isLoading={drafting} disabled={!hasText} variant="primary" className="ml-auto !py-1 !px-3 text-xs">
+          Turn into post
+        </Button>
+      </div>
+    </div>
+  );
+};
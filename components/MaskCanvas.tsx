@@ -0,0 +1,154 @@
+import React, { useEffect, useImperativeHandle, useRef, useState } from 'react';
+import { hasMaskedPixels } from '../services/imageMask';
+
+export type MaskTool = 'brush' | 'lasso' | 'erase';
+
+export interface MaskCanvasHandle {
+  // The painted mask at the image's natural size, or null if nothing is painted
+  getMask: () => HTMLCanvasElement | null;
+  clear: () => void;
+}
+
+interface MaskCanvasProps {
+  image: string;
+  tool: MaskTool;
+  brushSize: number; // percent of the image width
+  invert: boolean;
+  ref?: React.Ref<MaskCanvasHandle>;
+}
+
+type Point = { x: number, y: number };
+
+const MASK_COLOR = '#ff0050';
+
+// Paints a mask over the image. The canvas has the image's natural size and is
+// scaled with CSS, so pointer positions are converted to image pixels.
+export const MaskCanvas: React.FC<MaskCanvasProps> = ({ image, tool, brushSize, invert, ref }) => {
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const [size, setSize] = useState<{ width: number, height: number } | null>(null);
+  const drawing = useRef(false);
+  const lastPoint = useRef<Point | null>(null);
+  const lassoPoints = useRef<Point[]>([]);
+  const [lassoPreview, setLassoPreview] = useState<Point[]>([]);
+
+  useEffect(() => {
+    const img = new Image();
+    img.onload = () => setSize({ width: img.naturalWidth, height: img.naturalHeight });
+    img.src = image;
+  }, [image]);
+
+  useImperativeHandle(ref, () => ({
+    getMask: () => {
+      const canvas = canvasRef.current;
+      return canvas && hasMaskedPixels(canvas) ? canvas : null;
+    },
+    clear: () => {
+      const canvas = canvasRef.current;
+      canvas?.getContext('2d')!.clearRect(0, 0, canvas.width, canvas.height);
+    },
+  }));
+
+  const toImagePoint = (e: React.PointerEvent<HTMLCanvasElement>): Point => {
+    const canvas = e.currentTarget;
+    const rect = canvas.getBoundingClientRect();
+    return {
+      x: (e.clientX - rect.left) * (canvas.width / rect.width),
+      y: (e.clientY - rect.top) * (canvas.height / rect.height),
+    };
+  };
+
+  const strokeTo = (point: Point) => {
+    const ctx = canvasRef.current!.getContext('2d')!;
+    const from = lastPoint.current || point;
+    ctx.globalCompositeOperation = tool === 'erase' ? 'destination-out' : 'source-over';
+    ctx.strokeStyle = MASK_COLOR;
+    ctx.lineWidth = (brushSize / 100) * canvasRef.current!.width;
+    ctx.lineCap = 'round';
+    ctx.lineJoin = 'round';
+    ctx.beginPath();
+    ctx.moveTo(from.x, from.y);
+    ctx.lineTo(point.x, point.y);
+    ctx.stroke();
+    lastPoint.current = point;
+  };
+
+  const fillLasso = (points: Point[]) => {
+    if (points.length < 3) return;
+    const ctx = canvasRef.current!.getContext('2d')!;
+    ctx.globalCompositeOperation = 'source-over';
+    ctx.fillStyle = MASK_COLOR;
+    ctx.beginPath();
+    ctx.moveTo(points[0].x, points[0].y);
+    points.slice(1).forEach(p => ctx.lineTo(p.x, p.y));
+    ctx.closePath();
+    ctx.fill();
+  };
+
+  const handlePointerDown = (e: React.PointerEvent<HTMLCanvasElement>) => {
+    e.currentTarget.setPointerCapture(e.pointerId);
+    drawing.current = true;
+    const point = toImagePoint(e);
+    if (tool === 'lasso') {
+      lassoPoints.current = [point];
+      setLassoPreview([point]);
+    } else {
+      lastPoint.current = null;
+      strokeTo(point);
+    }
+  };
+
+  const handlePointerMove = (e: React.PointerEvent<HTMLCanvasElement>) => {
+    if (!drawing.current) return;
+    const point = toImagePoint(e);
+    if (tool === 'lasso') {
+      lassoPoints.current.push(point);
+      setLassoPreview([...lassoPoints.current]);
+    } else {
+      strokeTo(point);
+    }
+  };
+
+  const handlePointerUp = () => {
+    if (!drawing.current) return;
+    drawing.current = false;
+    lastPoint.current = null;
+    if (tool === 'lasso') {
+      fillLasso(lassoPoints.current);
+      lassoPoints.current = [];
+      setLassoPreview([]);
+    }
+  };
+
+  return (
+    <div className="relative w-full select-none" style={size ? { aspectRatio: `${size.width} / ${size.height}` } : undefined}>
+      <img src={image} alt="Cover" className="w-full h-full rounded border border-gray-700" draggable={false} />
+      {size && (
+        <>
+          <canvas
+            ref={canvasRef}
+            width={size.width}
+            height={size.height}
+            className={`absolute inset-0 w-full h-full touch-none ${tool === 'lasso' ? 'cursor-crosshair' : 'cursor-cell'}`}
+            // Inverted masks are shown dimmer: the paint marks what stays untouched
+            style={{ opacity: invert ? 0.25 : 0.5 }}
+            onPointerDown={handlePointerDown}
+            onPointerMove={handlePointerMove}
+            onPointerUp={handlePointerUp}
+            onPointerCancel={handlePointerUp}
+          />
+          {lassoPreview.length > 1 && (
+            <svg viewBox={`0 0 ${size.width} ${size.height}`} className="absolute inset-0 w-full h-full pointer-events-none">
+              <polyline
+                points={lassoPreview.map(p => `${p.x},${p.y}`).join(' ')}
+                fill="none"
+                stroke="#00f3ff"
+                strokeWidth={Math.max(2, size.width / 300)}
+                strokeDasharray="8 6"
+              />
+            </svg>
+          )}
+        </>
+      )}
+    </div>
+  );
+};
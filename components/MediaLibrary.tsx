@@ -0,0 +1,179 @@
+import React, { useEffect, useState } from 'react';
+import { listEpisodes } from '../services/episodes';
+import { deleteMedia, deleteUnusedMedia, formatBytes, getMediaUrl, listMedia, referencedMediaIds } from '../services/mediaLibrary';
+import { listPosts } from '../services/postRepository';
+import { MediaAsset, MediaKind } from '../types';
+import { Button } from './Button';
+
+interface MediaLibraryProps {
+  onClose: () => void;
+  // When given, assets can be picked for the post being written
+  onSelect?: (asset: MediaAsset) => void;
+  // Referenced outside saved posts (the open form, the saved draft); never offered for deletion
+  pinnedIds?: string[];
+}
+
+type LibraryFilter = 'all' | MediaKind | 'unused';
+
+const FILTERS: { value: LibraryFilter, label: string }[] = [
+  { value: 'all', label: 'All' },
+  { value: 'image', label: 'Images' },
+  { value: 'video', label: 'Videos' },
+  { value: 'audio', label: 'Audio' },
+  { value: 'unused', label: 'Unused' },
+];
+
+const formatDuration = (seconds: number) =>
+  `${Math.floor(seconds / 60)}:${String(Math.round(seconds % 60)).padStart(2, '0')}`;
+
+export const MediaLibrary: React.FC<MediaLibraryProps> = ({ onClose, onSelect, pinnedIds = [] }) => {
+  const [assets, setAssets] = useState<MediaAsset[]>([]);
+  const [urls, setUrls] = useState<Record<string, string>>({});
+  const [used, setUsed] = useState<Set<string>>(new Set());
+  const [filter, setFilter] = useState<LibraryFilter>('all');
+  const [loading, setLoading] = useState(true);
+  const [deleting, setDeleting] = useState(false);
+
+  const load = async () => {
+    setLoading(true);
+    try {
+      const [library, posts, episodes] = await Promise.all([listMedia(), listPosts(), listEpisodes()]);
+      const resolved: Record<string, string> = {};
+      for (const asset of library) {
+        const url = await getMediaUrl(asset.id);
+        if (url) resolved[asset.id] = url;
+      }
+      setAssets(library);
+      setUrls(resolved);
+      // An episode's recording is deleted together with the episode
+      setUsed(referencedMediaIds(posts, [...pinnedIds, ...episodes.map(episode => episode.mediaId)]));
+    } catch (e) {
+      console.error("Failed to load media library", e);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    load();
+  }, []);
+
+  const unused = assets.filter(asset => !used.has(asset.id));
+  const visible = assets.filter(asset =>
+    filter === 'all' ? true : filter === 'unused' ? !used.has(asset.id) : asset.kind === filter
+  );
+
+  const handleDelete = async (asset: MediaAsset) => {
+    if (used.has(asset.id) || !confirm("Delete this asset permanently?")) return;
+    try {
+      await deleteMedia(asset.id);
+      setAssets(assets.filter(a => a.id !== asset.id));
+    } catch (e) {
+      console.error("Failed to delete media", e);
+      alert("Could not delete this asset");
+      load();
+    }
+  };
+
+  const handleDeleteUnused = async () => {
+    if (!confirm(`Delete ${unused.length} unused ${unused.length === 1 ? 'asset' : 'assets'} permanently?`)) return;
+    setDeleting(true);
+    try {
+      await deleteUnusedMedia(used);
+      setAssets(assets.filter(asset => used.has(asset.id)));
+    } catch (e) {
+      console.error("Failed to delete unused media", e);
+      alert("Could not delete every unused asset");
+      load();
+    } finally {
+      setDeleting(false);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 bg-black/80 flex items-center justify-center p-4" onClick={onClose}>
+      <div className="bg-panel border border-gray-700 rounded-xl p-6 w-full max-w-4xl max-h-[90vh] flex flex-col shadow-2xl animate-fade-in" onClick={e => e.stopPropagation()}>
+        <div className="flex justify-between items-center mb-4 border-l-4 border-acid pl-3">
+          <h2 className="text-xl font-black text-white">MEDIA LIBRARY</h2>
+          <button onClick={onClose} className="text-gray-500 hover:text-white">
+            <span className="material-icons">close</span>
+          </button>
+        </div>
+
+        <div className="flex flex-wrap items-center justify-between gap-2 mb-4">
+          <div className="flex gap-1">
+            {FILTERS.map(f => (
+              <button
+                key={f.value}
+                onClick={() => setFilter(f.value)}
+                className={`text-xs font-bold uppercase px-3 py-1 rounded border transition-colors ${filter === f.value ? 'border-acid text-acid' : 'border-gray-700 text-gray-400 hover:border-gray-500'}`}
+              >
+                {f.label}
+              </button>
+            ))}
+          </div>
+          <Button onClick={handleDeleteUnused} isLoading={deleting} disabled={unused.length === 0} variant="danger" className="text-xs !py-1">
+            <span className="material-icons text-sm">delete_sweep</span> Delete unused ({unused.length})
+          </Button>
+        </div>
+
+        <div className="overflow-y-auto flex-1">
+          {loading ? (
+            <p className="text-gray-500 text-sm animate-pulse">Loading media...</p>
+          ) : visible.length === 0 ? (
+            <p className="text-gray-500 text-sm">Nothing here yet. Uploaded covers, AI edits, Veo videos and recorded episodes are collected automatically.</p>
+          ) : (
+            <div className="grid grid-cols-2 md:grid-cols-3 gap-3">
+              {visible.map(asset => (
+                <div key={asset.id} className="bg-deep border border-gray-800 rounded overflow-hidden flex flex-col">
+                  <div className="aspect-video bg-black relative">
+                    {asset.kind === 'video' ? (
+                      <video src={urls[asset.id]} muted loop autoPlay className="w-full h-full object-cover" />
+                    ) : asset.kind === 'audio' ? (
+                      <div className="w-full h-full flex flex-col items-center justify-center gap-2 p-2">
+                        <span className="material-icons text-4xl text-gray-600">podcasts</span>
+                        <audio src={urls[asset.id]} controls className="w-full h-8" />
+                      </div>
+                    ) : (
+                      <img src={urls[asset.id]} alt={asset.prompt || ''} className="w-full h-full object-cover" />
+                    )}
+                    {used.has(asset.id) && (
+                      <span className="absolute top-1 left-1 bg-black/70 px-1.5 py-0.5 rounded text-[10px] text-acid font-bold uppercase">In use</span>
+                    )}
+                  </div>
+                  <div className="p-2 text-[10px] text-gray-500 uppercase space-y-1 flex-1">
+                    <div>
+                      {asset.kind} · {asset.mimeType.split('/')[1]} · {formatBytes(asset.size)}
+                      {asset.width && asset.height ? ` · ${asset.width}×${asset.height}` : ''}
+                      {asset.duration ? ` · ${formatDuration(asset.duration)}` : ''}
+                    </div>
+                    <div>{asset.source} · {new Date(asset.createdAt).toLocaleString()}</div>
+                    {asset.prompt && (
+                      <p className="normal-case text-gray-300 text-xs line-clamp-2" title={asset.prompt}>"{asset.prompt}"</p>
+                    )}
+                  </div>
+                  <div className="flex gap-1 p-2 pt-0">
+                    {onSelect && (
+                      <Button onClick={() => onSelect(asset)} variant="neon" className="flex-1 !py-1 text-xs">
+                        <span className="material-icons text-sm">check</span> Use
+                      </Button>
+                    )}
+                    <Button
+                      onClick={() => handleDelete(asset)}
+                      disabled={used.has(asset.id)}
+                      variant="danger"
+                      className="!px-2 !py-1 text-xs"
+                      title={used.has(asset.id) ? 'Used by a post, draft or episode' : 'Delete'}
+                    >
+                      <span className="material-icons text-sm">delete</span>
+                    </Button>
+                  </div>
+                </div>
+              ))}
+            </div>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,184 @@
+import React, { useState } from 'react';
+import {
+  CRITIC_LANGUAGES,
+  CRITIC_STRICTNESS,
+  CRITIC_VOICES,
+  deletePersona,
+  listPersonas,
+  savePersona,
+} from '../services/criticPersonas';
+import { CriticPersona } from '../types';
+import { Button } from './Button';
+
+interface PersonaManagerProps {
+  selectedId: string;
+  onSelect: (persona: CriticPersona) => void;
+  onClose: () => void;
+}
+
+type PersonaForm = Omit<CriticPersona, 'id' | 'builtIn'> & { id?: string };
+
+const EMPTY_PERSONA: PersonaForm = {
+  name: '',
+  instruction: '',
+  voice: CRITIC_VOICES[0],
+  language: CRITIC_LANGUAGES[0].code,
+  strictness: 'fair',
+};
+
+const languageLabel = (code: string) => CRITIC_LANGUAGES.find(l => l.code === code)?.label || code;
+
+export const PersonaManager: React.FC<PersonaManagerProps> = ({ selectedId, onSelect, onClose }) => {
+  const [personas, setPersonas] = useState<CriticPersona[]>(listPersonas);
+  // The persona being created or edited; the list shows while this is null
+  const [form, setForm] = useState<PersonaForm | null>(null);
+
+  const startEditing = (persona: CriticPersona, copy = false) => {
+    const { id, builtIn: _, ...fields } = persona;
+    setForm(copy ? { ...fields, name: `${persona.name} (copy)` } : { ...fields, id });
+  };
+
+  const handleSave = () => {
+    if (!form || !form.name.trim() || !form.instruction.trim()) return;
+    const saved = savePersona({ ...form, name: form.name.trim(), instruction: form.instruction.trim() });
+    setPersonas(listPersonas());
+    setForm(null);
+    onSelect(saved);
+  };
+
+  const handleDelete = (persona: CriticPersona) => {
+    if (!window.confirm(`Delete the persona "${persona.name}"?`)) return;
+    deletePersona(persona.id);
+    setPersonas(listPersonas());
+    if (persona.id === selectedId) onSelect(listPersonas()[0]);
+  };
+
+  return (
+    <div className="bg-black/95 border border-gray-700 rounded-xl shadow-2xl w-96 max-w-[calc(100vw-3rem)] flex flex-col max-h-[60vh] animate-fade-in">
+      <div className="flex items-center gap-2 p-3 border-b border-gray-800">
+        <span className="material-icons text-acid text-sm">theater_comedy</span>
+        <span className="flex-1 text-xs text-gray-300 font-mono uppercase">{form ? (form.id ? 'Edit persona' : 'New persona') : 'Critic personas'}</span>
+        <button onClick={onClose} className="text-gray-500 hover:text-white" title="Close">
+          <span className="material-icons text-sm">close</span>
+        </button>
+      </div>
+
+      {form ? (
+        <div className="flex-1 overflow-y-auto p-3 space-y-3 text-xs">
+          <label className="block">
+            <span className="block text-gray-500 font-bold uppercase mb-1">Name</span>
+            <input
+              value={form.name}
+              onChange={e => setForm({ ...form, name: e.target.value })}
+              className="w-full bg-deep border border-gray-700 p-2 rounded text-white focus:border-acid outline-none"
+            />
+          </label>
+          <label className="block">
+            <span className="block text-gray-500 font-bold uppercase mb-1">Instructions</span>
+            <textarea
+              value={form.instruction}
+              onChange={e => setForm({ ...form, instruction: e.target.value })}
+              rows={5}
+              className="w-full bg-deep border border-gray-700 p-2 rounded text-white focus:border-acid outline-none resize-y"
+              placeholder="Who the critic is and how it talks..."
+            />
+          </label>
+          <div className="grid grid-cols-2 gap-2">
+            <label className="block">
+              <span className="block text-gray-500 font-bold uppercase mb-1">Voice</span>
+              <select
+                value={form.voice}
+                onChange={e => setForm({ ...form, voice: e.target.value })}
+                className="w-full bg-deep border border-gray-700 p-2 rounded text-white outline-none"
+              >
+                {CRITIC_VOICES.map(voice => <option key={voice} value={voice}>{voice}</option>)}
+              </select>
+            </label>
+            <label className="block">
+              <span className="block text-gray-500 font-bold uppercase mb-1">Language</span>
+              <select
+                value={form.language}
+                onChange={e => setForm({ ...form, language: e.target.value })}
+                className="w-full bg-deep border border-gray-700 p-2 rounded text-white outline-none"
+              >
+                {CRITIC_LANGUAGES.map(language => <option key={language.code} value={language.code}>{language.label}</option>)}
+              </select>
+            </label>
+          </div>
+          <div>
+            <span className="block text-gray-500 font-bold uppercase mb-1">Strictness</span>
+            <div className="flex gap-1">
+              {CRITIC_STRICTNESS.map(option => (
+                <button
+                  key={option.value}
+                  onClick={() => setForm({ ...form, strictness: option.value })}
+                  className={`flex-1 font-bold uppercase px-2 py-1 rounded border transition-colors ${form.strictness === option.value ? 'border-acid text-acid' : 'border-gray-700 text-gray-400 hover:border-gray-500'}`}
+                >
+                  {option.label}
+                </button>
+              ))}
+            </div>
+          </div>
+          <div className="flex justify-end gap-2 pt-1">
+            <Button onClick={() => setForm(null)} variant="secondary" className="!py-1 !px-3 text-xs">Cancel</Button>
+            <Button onClick={handleSave} disabled={!form.name.trim() || !form.instruction.trim()} variant="primary" className="!py-1 !px-3 text-xs">
+              Save
+            </Button>
+          </div>
+        </div>
+      ) : (
+        <>
+          <div className="flex-1 overflow-y-auto p-3 space-y-2">
+            {personas.map(persona => (
+              <div
+                key={persona.id}
+                onClick={() => onSelect(persona)}
+                className={`border rounded p-2 cursor-pointer transition-colors ${persona.id === selectedId ? 'border-acid' : 'border-gray-800 hover:border-gray-600'}`}
+              >
+                <div className="flex items-center gap-2">
+                  <span className={`material-icons text-sm ${persona.id === selectedId ? 'text-acid' : 'text-gray-600'}`}>
+                    {persona.id === selectedId ? 'radio_button_checked' : 'radio_button_unchecked'}
+                  </span>
+                  <span className="flex-1 text-sm text-white font-bold truncate">{persona.name}</span>
+                  <button
+                    onClick={e => { e.stopPropagation(); startEditing(persona, true); }}
+                    className="text-gray-500 hover:text-white p-0.5"
+                    title="Duplicate"
+                  >
+                    <span className="material-icons text-sm">content_copy</span>
+                  </button>
+                  {!persona.builtIn && (
+                    <>
+                      <button
+                        onClick={e => { e.stopPropagation(); startEditing(persona); }}
+                        className="text-gray-500 hover:text-white p-0.5"
+                        title="Edit"
+                      >
+                        <span className="material-icons text-sm">edit</span>
+                      </button>
+                      <button
+                        onClick={e => { e.stopPropagation(); handleDelete(persona); }}
+                        className="text-gray-500 hover:text-red-500 p-0.5"
+                        title="Delete"
+                      >
+                        <span className="material-icons text-sm">delete</span>
+                      </button>
+                    </>
+                  )}
+                </div>
+                <div className="text-[10px] text-gray-500 font-mono uppercase mt-1 pl-6">
+                  {persona.voice} · {languageLabel(persona.language)} · {persona.strictness}
+                </div>
+              </div>
+            ))}
+          </div>
+          <div className="flex p-3 border-t border-gray-800">
+            <Button onClick={() => setForm(EMPTY_PERSONA)} variant="secondary" className="ml-auto !py-1 !px-3 text-xs">
+              <span className="material-icons text-sm">add</span> New persona
+            </Button>
+          </div>
+        </>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,26 @@
+import React, { useMemo } from 'react';
+import { renderMarkdown } from '../services/markdown';
+import { ContentFormat } from '../types';
+
+interface PostContentProps {
+  content: string;
+  format: ContentFormat;
+  className?: string;
+}
+
+// Renders a post body. Markdown goes through the sanitizing renderer; legacy
+// plain-text posts keep the original pre-wrapped look.
+export const PostContent: React.FC<PostContentProps> = ({ content, format, className = '' }) => {
+  const html = useMemo(() => (format === 'markdown' ? renderMarkdown(content) : ''), [content, format]);
+
+  if (format !== 'markdown') {
+    return <div className={`font-mono text-gray-300 whitespace-pre-wrap ${className}`}>{content}</div>;
+  }
+
+  return (
+    <div
+      className={`markdown-body font-mono text-gray-300 ${className}`}
+      dangerouslySetInnerHTML={{ __html: html }}
+    />
+  );
+};
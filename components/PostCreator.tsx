@@ -1,98 +1,388 @@
-import React, { useState, useRef, useEffect } from 'react';
-import { analyzeLink, optimizePostMetadata } from '../services/geminiService';
-import { BlogPost, MediaType, Genre } from '../types';
+import React, { useState, useRef, useEffect, useImperativeHandle } from 'react';
+import { AudioCritiqueResult, VideoHighlight } from '../services/aiPrompts';
+import { getAIProvider, InlineImage } from '../services/aiProvider';
+import { createHistory, currentVersion, promptChain } from '../services/imageHistory';
+import { describeLink, mergeSourceLink, MUSIC_PLATFORMS, parseMusicLink, resolveMusicLink } from '../services/linkResolver';
+import { DraftAccess } from '../services/liveTools';
+import { blobToDataUrl, getMediaBlob, getMediaUrl, importMediaUrl, saveMedia } from '../services/mediaLibrary';
+import { createPost, updatePost } from '../services/postRepository';
+import { StructuredOutputError } from '../services/structuredOutput';
+import { AnalysisMode, BlogPost, ContentFormat, ImageHistory, ImageVersion, MediaAsset, MediaType, Genre, GENRES } from '../types';
 import { Button } from './Button';
+import { CoverGenerator } from './CoverGenerator';
+import { DemoTrackCritique } from './DemoTrackCritique';
 import { ImageEditor } from './ImageEditor';
+import { MediaLibrary } from './MediaLibrary';
+import { PostContent } from './PostContent';
 import { VeoGenerator } from './VeoGenerator';
+import { VeoJobQueue } from './VeoJobQueue';
+
+// DraftAccess lets the Live critic read and work on the open entry
+export interface PostCreatorHandle extends DraftAccess {
+  editPost: (post: BlogPost) => void;
+  // Replaces the new entry with a generated draft; false if the author kept theirs
+  openDraft: (fields: Pick<BlogPost, 'title' | 'content' | 'metaDescription'>) => boolean;
+  // Media the open form or the saved draft points at, so the library won't delete it
+  referencedMediaIds: () => string[];
+  // Makes a recorded episode the entry's media
+  attachAudio: (mediaId: string) => Promise<void>;
+}
 
 interface PostCreatorProps {
-  onPostCreated: (post: BlogPost) => void;
+  onPostSaved: (post: BlogPost) => void;
+  ref?: React.Ref<PostCreatorHandle>;
 }
 
 const DRAFT_STORAGE_KEY = 'senhor_gotico_draft';
 
-const GENRES: Genre[] = ['Goth', 'Industrial', 'Darkwave', 'Post-Punk', 'EBM', 'Synthpop', 'Metal', 'Other'];
+const DEFAULT_TAGS = ['Music', 'Review'];
+
+type EditorView = 'write' | 'split' | 'preview';
+
+const ANALYSIS_MODES: Record<AnalysisMode, { icon: string, label: string, hint: string }> = {
+  video: { icon: 'smart_display', label: 'Drafted from the video', hint: 'Gemini watched and listened to the video itself' },
+  search: { icon: 'travel_explore', label: 'Drafted from search results', hint: 'The video itself was not processed; double-check names and facts' },
+  link: { icon: 'link', label: 'Drafted from the link alone', hint: 'Nothing was looked up; double-check names and facts' },
+  audio: { icon: 'graphic_eq', label: 'Drafted from the demo track', hint: 'Gemini listened to the uploaded or recorded audio' },
+};
 
-export const PostCreator: React.FC<PostCreatorProps> = ({ onPostCreated }) => {
+// Timestamps link to that moment of the video when the URL can carry a start time
+const highlightsMarkdown = (url: string, highlights: VideoHighlight[]) => {
+  const lines = highlights.map(({ time, note }) => {
+    const seconds = time.split(':').reduce((total, part) => total * 60 + Number(part), 0);
+    try {
+      const link = new URL(url);
+      link.searchParams.set('t', `${seconds}s`);
+      return `- [${time}](${link.href}) ${note}`;
+    } catch {
+      return `- **${time}** ${note}`;
+    }
+  });
+  return `## Highlights\n\n${lines.join('\n')}`;
+};
+
+export const PostCreator: React.FC<PostCreatorProps> = ({ onPostSaved, ref }) => {
   const [url, setUrl] = useState('');
   const [analyzing, setAnalyzing] = useState(false);
+  const [addingLink, setAddingLink] = useState(false);
   const [draft, setDraft] = useState<Partial<BlogPost>>({});
   const [genre, setGenre] = useState<Genre>('Goth');
+  // Visuals are media library assets; the URLs below are for display and editing
   const [coverImage, setCoverImage] = useState<string | null>(null);
+  // Edit history of the cover; its current version is the cover's media asset
+  const [coverHistory, setCoverHistory] = useState<ImageHistory | null>(null);
   const [videoUrl, setVideoUrl] = useState<string | null>(null);
-  const [tags, setTags] = useState<string[]>(['Music', 'Review']);
+  const [videoMediaId, setVideoMediaId] = useState<string | null>(null);
+  const [audioUrl, setAudioUrl] = useState<string | null>(null);
+  const [audioMediaId, setAudioMediaId] = useState<string | null>(null);
+  const [showLibrary, setShowLibrary] = useState(false);
+  const [tags, setTags] = useState<string[]>(DEFAULT_TAGS);
   const [tagInput, setTagInput] = useState('');
+  // Offered by the Live critic; added only when clicked
+  const [suggestedTags, setSuggestedTags] = useState<string[]>([]);
   const [lastSaved, setLastSaved] = useState<Date | null>(null);
   const [optimizingSeo, setOptimizingSeo] = useState(false);
+  const [publishing, setPublishing] = useState(false);
+  // Published post currently reopened in the form; null while writing a new entry
+  const [editingPost, setEditingPost] = useState<BlogPost | null>(null);
+  const [editorView, setEditorView] = useState<EditorView>('split');
   
   const fileInputRef = useRef<HTMLInputElement>(null);
+  // Bumped on every cover load, so a slow load cannot land after a newer one
+  const coverLoadRef = useRef(0);
 
-  // Load draft on mount
-  useEffect(() => {
-    const saved = localStorage.getItem(DRAFT_STORAGE_KEY);
-    if (saved) {
-      try {
-        const parsed = JSON.parse(saved);
-        if (parsed.url) setUrl(parsed.url);
-        if (parsed.draft) setDraft(parsed.draft);
-        if (parsed.tags) setTags(parsed.tags);
-        if (parsed.genre) setGenre(parsed.genre);
-        // Only restore cover image if it exists. Video URL is not persistent (blob URL).
-        if (parsed.coverImage) setCoverImage(parsed.coverImage);
-      } catch (e) {
-        console.error("Failed to load draft", e);
+  const resetForm = () => {
+    setUrl('');
+    setDraft({});
+    setGenre('Goth');
+    clearCover();
+    clearVideo();
+    clearAudio();
+    setTags(DEFAULT_TAGS);
+    setSuggestedTags([]);
+  };
+
+  const coverMediaId = coverHistory ? currentVersion(coverHistory).mediaId : null;
+
+  const clearCover = () => {
+    coverLoadRef.current++;
+    setCoverImage(null);
+    setCoverHistory(null);
+  };
+
+  const clearVideo = () => {
+    setVideoUrl(null);
+    setVideoMediaId(null);
+  };
+
+  const clearAudio = () => {
+    setAudioUrl(null);
+    setAudioMediaId(null);
+  };
+
+  // The image editor works on data: URLs, so covers are loaded as one
+  const loadCoverImage = async (mediaId: string) => {
+    const load = ++coverLoadRef.current;
+    const blob = await getMediaBlob(mediaId);
+    if (!blob) return;
+    const dataUrl = await blobToDataUrl(blob);
+    if (load === coverLoadRef.current) setCoverImage(dataUrl);
+  };
+
+  // A new cover starts a fresh edit history
+  const showCover = async (mediaId: string, baseChain: string[] = []) => {
+    setCoverHistory(createHistory(mediaId, baseChain));
+    await loadCoverImage(mediaId);
+  };
+
+  const handleCoverHistoryChange = (history: ImageHistory) => {
+    setCoverHistory(history);
+    loadCoverImage(currentVersion(history).mediaId)
+      .catch(e => console.error("Could not load cover version", e));
+  };
+
+  const showVideo = async (mediaId: string) => {
+    const url = await getMediaUrl(mediaId);
+    if (!url) return;
+    setVideoUrl(url);
+    setVideoMediaId(mediaId);
+  };
+
+  const showAudio = async (mediaId: string) => {
+    const url = await getMediaUrl(mediaId);
+    if (!url) return;
+    setAudioUrl(url);
+    setAudioMediaId(mediaId);
+  };
+
+  const showMedia = (asset: MediaAsset) => {
+    if (asset.kind === 'video') {
+      showVideo(asset.id);
+    } else if (asset.kind === 'audio') {
+      clearVideo();
+      showAudio(asset.id);
+    } else {
+      clearVideo();
+      clearAudio();
+      showCover(asset.id);
+    }
+  };
+
+  const readSavedDraft = () => {
+    try {
+      const saved = localStorage.getItem(DRAFT_STORAGE_KEY);
+      return saved ? JSON.parse(saved) : null;
+    } catch (e) {
+      console.error("Failed to load draft", e);
+      return null;
+    }
+  };
+
+  const loadSavedDraft = async () => {
+    resetForm();
+    const parsed = readSavedDraft();
+    if (!parsed) return;
+    if (parsed.url) setUrl(parsed.url);
+    if (parsed.draft) {
+      // Drafts saved before posts could link to several platforms
+      const { youtubeUrl, ...saved } = parsed.draft;
+      const legacyLink = youtubeUrl && !saved.sourceLinks ? parseMusicLink(youtubeUrl) : null;
+      setDraft(legacyLink ? { ...saved, sourceLinks: [legacyLink] } : saved);
+    }
+    if (parsed.tags) setTags(parsed.tags);
+    if (parsed.genre) setGenre(parsed.genre);
+    try {
+      // Drafts saved before the media library kept the cover inline
+      if (parsed.coverImage && !parsed.coverMediaId) {
+        parsed.coverMediaId = (await importMediaUrl(parsed.coverImage, { source: 'upload' })).id;
+      }
+      if (parsed.coverHistory) {
+        setCoverHistory(parsed.coverHistory);
+        await loadCoverImage(currentVersion(parsed.coverHistory).mediaId);
+      } else if (parsed.coverMediaId) {
+        await showCover(parsed.coverMediaId);
       }
+      if (parsed.videoMediaId) await showVideo(parsed.videoMediaId);
+      if (parsed.audioMediaId) await showAudio(parsed.audioMediaId);
+    } catch (e) {
+      console.error("Failed to restore draft media", e);
     }
+  };
+
+  // Load draft on mount
+  useEffect(() => {
+    loadSavedDraft();
   }, []);
 
-  // Save draft on changes
+  useImperativeHandle(ref, () => ({
+    editPost: (post: BlogPost) => {
+      setEditingPost(post);
+      setUrl(post.sourceLinks?.[0]?.url || '');
+      setDraft({
+        title: post.title,
+        content: post.content,
+        contentFormat: post.contentFormat,
+        metaDescription: post.metaDescription,
+        sourceLinks: post.sourceLinks,
+        groundingSources: post.groundingSources,
+        analysisMode: post.analysisMode
+      });
+      setGenre(post.genre);
+      setTags(post.tags);
+      clearCover();
+      clearVideo();
+      clearAudio();
+      if (post.mediaId) {
+        if (post.mediaType === MediaType.VIDEO) showVideo(post.mediaId);
+        else if (post.mediaType === MediaType.AUDIO) showAudio(post.mediaId);
+        else showCover(post.mediaId, post.coverPromptChain);
+      }
+    },
+    openDraft: (fields) => {
+      if (editingPost) {
+        // Leaving the edit also lets autosave write over the new entry kept in the background
+        const saved = readSavedDraft()?.draft;
+        const message = saved?.title || saved?.content
+          ? "Discard your changes to this post and replace the draft in progress?"
+          : "Discard your changes to this post?";
+        if (!window.confirm(message)) return false;
+      } else if ((draft.title || draft.content) && !window.confirm("Replace the draft in progress?")) {
+        return false;
+      }
+      setEditingPost(null);
+      resetForm();
+      setDraft({ ...fields, contentFormat: 'markdown' });
+      return true;
+    },
+    referencedMediaIds: inUseMediaIds,
+    attachAudio: async (mediaId) => {
+      clearVideo();
+      await showAudio(mediaId);
+    },
+    readDraft: () => ({
+      title: draft.title || '',
+      content: draft.content || '',
+      genre,
+      tags,
+      coverImage,
+      editing: !!editingPost,
+    }),
+    setGenre,
+    appendParagraph: (text) => {
+      setDraft(prev => ({
+        ...prev,
+        content: prev.content?.trim() ? `${prev.content.trimEnd()}\n\n${text.trim()}` : text.trim(),
+        contentFormat: prev.contentFormat || 'markdown',
+      }));
+    },
+    suggestTags: setSuggestedTags,
+  }));
+
+  // Every version in the edit history stays reachable, so all of them count as in use
+  const formMediaIds = (): string[] => [
+    ...(coverHistory?.versions || []).map(version => version.mediaId),
+    ...(videoMediaId ? [videoMediaId] : []),
+    ...(audioMediaId ? [audioMediaId] : []),
+  ];
+
+  // The form plus the new entry saved in the background, which editing a
+  // published post leaves untouched but still needs
+  const inUseMediaIds = (): string[] => {
+    const saved = readSavedDraft();
+    return [
+      ...formMediaIds(),
+      ...(saved?.coverHistory?.versions || []).map((version: ImageVersion) => version.mediaId),
+      saved?.coverMediaId,
+      saved?.videoMediaId,
+      saved?.audioMediaId,
+    ].filter(Boolean);
+  };
+
+  // Save draft on changes. Edits to published posts are not drafts and must not
+  // overwrite the new entry someone left half-written.
   useEffect(() => {
+    if (editingPost) return;
     const timer = setTimeout(() => {
-      const dataToSave = { url, draft, tags, genre, coverImage };
+      // Visuals are saved by media id; the bytes live in the media library
+      const dataToSave = { url, draft, tags, genre, coverHistory, videoMediaId, audioMediaId };
       try {
         localStorage.setItem(DRAFT_STORAGE_KEY, JSON.stringify(dataToSave));
         setLastSaved(new Date());
       } catch (e) {
-        console.warn("Draft too large for localStorage, trying without image", e);
-        // Fallback: try saving without image if quota exceeded
-        try {
-            const { coverImage: _, ...rest } = dataToSave;
-            localStorage.setItem(DRAFT_STORAGE_KEY, JSON.stringify(rest));
-            setLastSaved(new Date());
-        } catch (e2) {
-            console.error("Could not save draft", e2);
-        }
+        console.error("Could not save draft", e);
       }
     }, 1000);
 
     return () => clearTimeout(timer);
-  }, [url, draft, tags, genre, coverImage]);
+  }, [url, draft, tags, genre, coverHistory, videoMediaId, audioMediaId, editingPost]);
 
   const handleUrlAnalyze = async () => {
     if (!url) return;
     setAnalyzing(true);
     try {
-      const result = await analyzeLink(url);
+      const result = await getAIProvider().analyzeLink(url);
+      const link = result.link;
       setDraft(prev => ({
         ...prev,
         title: result.title,
-        content: result.content,
+        content: result.highlights.length
+          ? `${result.content}\n\n${highlightsMarkdown(link?.url || url, result.highlights)}`
+          : result.content,
+        contentFormat: 'markdown',
         metaDescription: result.metaDescription,
-        youtubeUrl: url,
-        groundingSources: result.sources
+        // The analyzed link leads the list
+        sourceLinks: link ? mergeSourceLink(prev.sourceLinks || [], link, true) : prev.sourceLinks,
+        groundingSources: result.sources,
+        analysisMode: result.mode
       }));
     } catch (e) {
-      alert("Could not analyze link");
+      alert(e instanceof StructuredOutputError
+        ? `The AI reply could not be turned into a draft:\n${e.issues.join('\n')}`
+        : "Could not analyze link");
     } finally {
       setAnalyzing(false);
     }
   };
 
+  // Lists another platform's link for the release without analyzing it
+  const handleAddLink = async () => {
+    if (!url) return;
+    setAddingLink(true);
+    try {
+      const link = await resolveMusicLink(url);
+      if (!link) {
+        alert("Only YouTube, Bandcamp, Spotify, SoundCloud and Apple Music links can be added.");
+        return;
+      }
+      setDraft(prev => ({ ...prev, sourceLinks: mergeSourceLink(prev.sourceLinks || [], link) }));
+      setUrl('');
+    } finally {
+      setAddingLink(false);
+    }
+  };
+
+  const removeSourceLink = (linkUrl: string) =>
+    setDraft(prev => ({ ...prev, sourceLinks: (prev.sourceLinks || []).filter(link => link.url !== linkUrl) }));
+
+  // A critique of an uploaded or recorded track fills the draft like a link analysis
+  const handleAudioCritique = (result: AudioCritiqueResult) => {
+    setDraft(prev => ({
+      ...prev,
+      title: result.title,
+      content: result.content,
+      contentFormat: 'markdown',
+      metaDescription: result.metaDescription,
+      groundingSources: [],
+      analysisMode: 'audio'
+    }));
+    setGenre(result.genre);
+  };
+
   const handleOptimizeSeo = async () => {
     if (!draft.content) return;
     setOptimizingSeo(true);
     try {
-      const result = await optimizePostMetadata(draft.title || "New Post", draft.content);
+      const result = await getAIProvider().optimizePostMetadata(draft.title || "New Post", draft.content);
       setDraft(prev => ({
         ...prev,
         title: result.title,
@@ -100,25 +390,46 @@ export const PostCreator: React.FC<PostCreatorProps> = ({ onPostCreated }) => {
       }));
     } catch (e) {
       console.error("SEO Optimization failed", e);
+      if (e instanceof StructuredOutputError) {
+        alert(`The AI suggestion was rejected:\n${e.issues.join('\n')}`);
+      }
     } finally {
       setOptimizingSeo(false);
     }
   };
 
-  const handleImageUpload = (e: React.ChangeEvent<HTMLInputElement>) => {
+  const handleImageUpload = async (e: React.ChangeEvent<HTMLInputElement>) => {
     const file = e.target.files?.[0];
-    if (file) {
-      const reader = new FileReader();
-      reader.onload = (evt) => {
-        if (evt.target?.result) {
-          setCoverImage(evt.target.result as string);
-          setVideoUrl(null);
-        }
-      };
-      reader.readAsDataURL(file);
+    if (!file) return;
+    try {
+      const asset = await saveMedia(file, { source: 'upload' });
+      clearVideo();
+      clearAudio();
+      await showCover(asset.id);
+    } catch (err) {
+      console.error("Failed to store cover", err);
+      alert("Could not add that file to the media library");
+    }
+  };
+
+  // The generation prompt heads the cover's prompt chain
+  const handleCoverGenerated = async (image: InlineImage, prompt: string) => {
+    try {
+      const asset = await importMediaUrl(`data:${image.mimeType};base64,${image.data}`, { source: 'image-generate', prompt });
+      clearVideo();
+      clearAudio();
+      await showCover(asset.id, [prompt]);
+    } catch (err) {
+      console.error("Failed to store cover", err);
+      alert("Could not add that image to the media library");
     }
   };
 
+  const handleLibrarySelect = (asset: MediaAsset) => {
+    setShowLibrary(false);
+    showMedia(asset);
+  };
+
   const handleAddTag = () => {
     if (tagInput.trim() && !tags.includes(tagInput.trim())) {
       setTags([...tags, tagInput.trim()]);
@@ -126,6 +437,11 @@ export const PostCreator: React.FC<PostCreatorProps> = ({ onPostCreated }) => {
     }
   };
 
+  const handleAcceptTag = (tag: string) => {
+    if (!tags.includes(tag)) setTags([...tags, tag]);
+    setSuggestedTags(suggestedTags.filter(t => t !== tag));
+  };
+
   const handleRemoveTag = (tagToRemove: string) => {
     setTags(tags.filter(tag => tag !== tagToRemove));
   };
@@ -137,36 +453,64 @@ export const PostCreator: React.FC<PostCreatorProps> = ({ onPostCreated }) => {
     }
   };
 
-  const handlePublish = () => {
+  const handleCancelEdit = () => {
+    setEditingPost(null);
+    loadSavedDraft();
+  };
+
+  const handlePublish = async () => {
     if (!draft.title || !draft.content) return;
     
-    const newPost: BlogPost = {
-      id: Date.now().toString(),
+    const fields = {
       title: draft.title,
       content: draft.content,
+      contentFormat: draft.contentFormat || 'markdown',
       metaDescription: draft.metaDescription,
       genre: genre,
-      date: new Date().toLocaleDateString(),
       tags: tags,
-      youtubeUrl: draft.youtubeUrl,
-      mediaUrl: videoUrl || coverImage || undefined,
-      mediaType: videoUrl ? MediaType.VIDEO : MediaType.IMAGE,
-      groundingSources: draft.groundingSources
+      sourceLinks: draft.sourceLinks,
+      mediaId: videoMediaId || audioMediaId || coverMediaId || undefined,
+      mediaUrl: undefined,
+      mediaType: videoMediaId ? MediaType.VIDEO : audioMediaId ? MediaType.AUDIO : MediaType.IMAGE,
+      groundingSources: draft.groundingSources,
+      analysisMode: draft.analysisMode,
+      coverPromptChain: coverHistory ? promptChain(coverHistory) : undefined
     };
+
+    setPublishing(true);
+    let savedPost: BlogPost;
+    try {
+      savedPost = editingPost
+        ? await updatePost({ ...editingPost, ...fields })
+        : await createPost({
+            ...fields,
+            id: Date.now().toString(),
+            status: 'published',
+            date: new Date().toLocaleDateString()
+          });
+    } catch (e) {
+      console.error("Failed to save post", e);
+      alert("Could not save post");
+      return;
+    } finally {
+      setPublishing(false);
+    }
     
-    onPostCreated(newPost);
+    onPostSaved(savedPost);
+
+    if (editingPost) {
+      // Go back to whatever new entry was in progress before the edit
+      setEditingPost(null);
+      loadSavedDraft();
+      return;
+    }
     
     // Clear draft from storage
     localStorage.removeItem(DRAFT_STORAGE_KEY);
     setLastSaved(null);
 
     // Reset form
-    setUrl('');
-    setDraft({});
-    setGenre('Goth');
-    setCoverImage(null);
-    setVideoUrl(null);
-    setTags(['Music', 'Review']);
+    resetForm();
   };
 
   const metaDescLength = draft.metaDescription?.length || 0;
@@ -174,8 +518,10 @@ export const PostCreator: React.FC<PostCreatorProps> = ({ onPostCreated }) => {
   return (
     <div className="bg-panel border border-gray-800 p-6 rounded-xl shadow-2xl mb-8">
       <div className="flex justify-between items-center mb-6 border-l-4 border-acid pl-3">
-        <h2 className="text-2xl font-black text-white">NEW ENTRY</h2>
-        {lastSaved && (
+        <h2 className="text-2xl font-black text-white">
+          {editingPost ? (editingPost.status === 'draft' ? 'EDITING DRAFT' : 'EDITING ENTRY') : 'NEW ENTRY'}
+        </h2>
+        {!editingPost && lastSaved && (
             <span className="text-xs text-gray-500 font-mono animate-pulse">
                 DRAFT SAVED {lastSaved.toLocaleTimeString([], {hour: '2-digit', minute:'2-digit'})}
             </span>
@@ -186,21 +532,48 @@ export const PostCreator: React.FC<PostCreatorProps> = ({ onPostCreated }) => {
         {/* Left Column: Text Content */}
         <div className="space-y-4">
           <div>
-            <label className="block text-gray-400 text-xs font-bold uppercase mb-2">YouTube Link</label>
+            <label className="block text-gray-400 text-xs font-bold uppercase mb-2">Music Link</label>
             <div className="flex gap-2">
               <input 
                 type="text" 
                 value={url}
                 onChange={(e) => setUrl(e.target.value)}
                 className="flex-1 bg-deep border border-gray-700 p-3 rounded text-white focus:border-acid outline-none"
-                placeholder="https://youtube.com/watch?v=..."
+                placeholder="YouTube, Bandcamp, Spotify, SoundCloud or Apple Music link"
               />
-              <Button onClick={handleUrlAnalyze} isLoading={analyzing} variant="primary">
+              <Button onClick={handleAddLink} isLoading={addingLink} disabled={!url || analyzing || addingLink} variant="secondary" title="Add the link without analyzing it">
+                <span className="material-icons text-sm">add_link</span>
+              </Button>
+              <Button onClick={handleUrlAnalyze} isLoading={analyzing} disabled={analyzing || addingLink} variant="primary">
                 Analyze
               </Button>
             </div>
+            {!!draft.sourceLinks?.length && (
+              <ul className="mt-2 space-y-1">
+                {draft.sourceLinks.map(link => (
+                  <li key={link.url} className="flex items-center gap-2 text-xs text-gray-400">
+                    <span className="material-icons text-sm text-acid">{MUSIC_PLATFORMS[link.platform].icon}</span>
+                    <a href={link.url} target="_blank" rel="noreferrer" className="flex-1 truncate hover:text-acid" title={link.url}>
+                      <span className="font-bold">{MUSIC_PLATFORMS[link.platform].name}</span> · {describeLink(link)}
+                    </a>
+                    {!link.embedUrl && <span className="text-[10px] text-gray-600 font-mono uppercase" title="Shown as a plain link">No player</span>}
+                    <button onClick={() => removeSourceLink(link.url)} className="text-gray-500 hover:text-red-500" title="Remove link">
+                      <span className="material-icons text-sm">close</span>
+                    </button>
+                  </li>
+                ))}
+              </ul>
+            )}
+            {draft.analysisMode && (
+              <p className="flex items-center gap-1 mt-2 text-[10px] text-gray-500 font-mono uppercase" title={ANALYSIS_MODES[draft.analysisMode].hint}>
+                <span className="material-icons text-xs">{ANALYSIS_MODES[draft.analysisMode].icon}</span>
+                {ANALYSIS_MODES[draft.analysisMode].label}
+              </p>
+            )}
           </div>
 
+          <DemoTrackCritique onResult={handleAudioCritique} />
+
           {draft.title && (
             <div className="space-y-4 animate-fade-in">
               <div className="flex gap-4">
@@ -252,12 +625,50 @@ export const PostCreator: React.FC<PostCreatorProps> = ({ onPostCreated }) => {
                  />
               </div>
 
-              <textarea 
-                value={draft.content}
-                onChange={e => setDraft({...draft, content: e.target.value})}
-                className="w-full h-64 bg-deep/50 p-4 rounded border border-gray-700 focus:border-acid outline-none resize-none font-mono text-sm"
-                placeholder="Content..."
-              />
+              {/* Content Editor */}
+              <div>
+                <div className="flex justify-between items-center mb-1">
+                  <select
+                    value={draft.contentFormat || 'markdown'}
+                    onChange={e => setDraft({...draft, contentFormat: e.target.value as ContentFormat})}
+                    className="bg-transparent text-[10px] font-bold uppercase text-gray-400 outline-none cursor-pointer"
+                    title="Content format"
+                  >
+                    <option value="markdown">Markdown</option>
+                    <option value="text">Plain Text</option>
+                  </select>
+                  <div className="flex gap-1">
+                    {(['write', 'split', 'preview'] as EditorView[]).map(view => (
+                      <button
+                        key={view}
+                        onClick={() => setEditorView(view)}
+                        className={`text-[10px] font-bold uppercase px-2 py-0.5 rounded border transition-colors ${
+                          editorView === view ? 'border-acid text-acid' : 'border-gray-700 text-gray-500 hover:text-white'
+                        }`}
+                      >
+                        {view}
+                      </button>
+                    ))}
+                  </div>
+                </div>
+                <div className={`grid gap-2 ${editorView === 'split' ? 'grid-cols-2' : 'grid-cols-1'}`}>
+                  {editorView !== 'preview' && (
+                    <textarea 
+                      value={draft.content}
+                      onChange={e => setDraft({...draft, content: e.target.value})}
+                      className="w-full h-64 bg-deep/50 p-4 rounded border border-gray-700 focus:border-acid outline-none resize-none font-mono text-sm"
+                      placeholder={(draft.contentFormat || 'markdown') === 'markdown' ? "Content... (Markdown: ## heading, **bold**, [link](https://...), > quote, - list)" : "Content..."}
+                    />
+                  )}
+                  {editorView !== 'write' && (
+                    <PostContent
+                      content={draft.content || ''}
+                      format={draft.contentFormat || 'markdown'}
+                      className="h-64 overflow-y-auto bg-black/30 p-4 rounded border border-gray-800 text-sm"
+                    />
+                  )}
+                </div>
+              </div>
 
               {/* Tags Input Section */}
               <div className="mt-2 pt-4 border-t border-gray-800">
@@ -275,6 +686,24 @@ export const PostCreator: React.FC<PostCreatorProps> = ({ onPostCreated }) => {
                     </span>
                   ))}
                 </div>
+                {suggestedTags.length > 0 && (
+                  <div className="flex flex-wrap items-center gap-2 mb-3">
+                    <span className="text-[10px] text-gray-500 font-mono uppercase">Critic suggests</span>
+                    {suggestedTags.map(tag => (
+                      <button
+                        key={tag}
+                        onClick={() => handleAcceptTag(tag)}
+                        className="text-xs px-2 py-1 rounded border border-dashed border-gray-600 text-gray-400 hover:border-acid hover:text-acid"
+                        title="Add this tag"
+                      >
+                        +#{tag}
+                      </button>
+                    ))}
+                    <button onClick={() => setSuggestedTags([])} className="text-gray-600 hover:text-white text-xs" title="Dismiss suggestions">
+                      <span className="material-icons text-sm">close</span>
+                    </button>
+                  </div>
+                )}
                 <div className="flex gap-2">
                   <input 
                     type="text"
@@ -295,26 +724,38 @@ export const PostCreator: React.FC<PostCreatorProps> = ({ onPostCreated }) => {
 
         {/* Right Column: Visuals */}
         <div className="space-y-4">
-          <label className="block text-gray-400 text-xs font-bold uppercase mb-2">Visuals</label>
+          <div className="flex justify-between items-center mb-2">
+            <label className="block text-gray-400 text-xs font-bold uppercase">Visuals</label>
+            <button onClick={() => setShowLibrary(true)} className="text-xs text-gray-400 hover:text-acid flex items-center gap-1">
+              <span className="material-icons text-sm">photo_library</span> Library
+            </button>
+          </div>
           
-          {!coverImage ? (
-            <div 
-              onClick={() => fileInputRef.current?.click()}
-              className="h-64 border-2 border-dashed border-gray-700 rounded-xl flex items-center justify-center cursor-pointer hover:border-acid transition-colors group"
-            >
-              <div className="text-center">
-                <span className="material-icons text-4xl text-gray-600 group-hover:text-acid mb-2">add_photo_alternate</span>
-                <p className="text-gray-500 font-mono text-sm">+ UPLOAD COVER ART</p>
+          {!coverImage && !videoUrl && !audioUrl ? (
+            <>
+              <div 
+                onClick={() => fileInputRef.current?.click()}
+                className="h-64 border-2 border-dashed border-gray-700 rounded-xl flex items-center justify-center cursor-pointer hover:border-acid transition-colors group"
+              >
+                <div className="text-center">
+                  <span className="material-icons text-4xl text-gray-600 group-hover:text-acid mb-2">add_photo_alternate</span>
+                  <p className="text-gray-500 font-mono text-sm">+ UPLOAD COVER ART</p>
+                </div>
+                <input ref={fileInputRef} type="file" hidden accept="image/*" onChange={handleImageUpload}/>
               </div>
-              <input ref={fileInputRef} type="file" hidden accept="image/*" onChange={handleImageUpload}/>
-            </div>
+              <CoverGenerator
+                draft={{ title: draft.title || '', genre, content: draft.content || '' }}
+                onSelect={handleCoverGenerated}
+              />
+              <VeoGenerator imageSrc={null} />
+            </>
           ) : (
             <div className="space-y-4 animate-fade-in">
               {videoUrl ? (
                 <div className="relative">
                   <video src={videoUrl} autoPlay loop muted className="w-full rounded border border-gray-700 shadow-lg" />
                   <button 
-                    onClick={() => setVideoUrl(null)}
+                    onClick={clearVideo}
                     className="absolute top-2 right-2 bg-black/80 text-white p-2 rounded-full hover:bg-red-600 transition-colors"
                     title="Remove Video"
                   >
@@ -324,36 +765,63 @@ export const PostCreator: React.FC<PostCreatorProps> = ({ onPostCreated }) => {
                     VEO VIDEO
                   </div>
                 </div>
+              ) : audioUrl ? (
+                <div className="relative bg-deep border border-gray-700 rounded p-4 pt-10 shadow-lg">
+                  <audio src={audioUrl} controls className="w-full" />
+                  <button
+                    onClick={clearAudio}
+                    className="absolute top-2 right-2 bg-black/80 text-white p-2 rounded-full hover:bg-red-600 transition-colors"
+                    title="Remove Episode"
+                  >
+                    <span className="material-icons text-sm">close</span>
+                  </button>
+                  <div className="absolute top-3 left-3 flex items-center gap-1 text-xs text-acid font-bold">
+                    <span className="material-icons text-sm">podcasts</span> EPISODE
+                  </div>
+                </div>
               ) : (
                 <>
-                  <ImageEditor initialImage={coverImage} onImageUpdate={setCoverImage} />
-                  <VeoGenerator 
-                    imageBase64={coverImage} 
-                    onVideoGenerated={setVideoUrl}
-                  />
+                  <ImageEditor initialImage={coverImage} history={coverHistory!} onHistoryChange={handleCoverHistoryChange} />
+                  <VeoGenerator imageSrc={coverImage} />
                 </>
               )}
               
               <div className="flex justify-end pt-2">
-                <Button onClick={() => { setCoverImage(null); setVideoUrl(null); }} variant="secondary" className="text-xs">
+                <Button onClick={() => { clearCover(); clearVideo(); clearAudio(); }} variant="secondary" className="text-xs">
                   Remove Visuals
                 </Button>
               </div>
             </div>
           )}
+
+          {getAIProvider().capabilities.has('video') && <VeoJobQueue onUseVideo={showVideo} />}
         </div>
       </div>
 
-      <div className="mt-8 flex justify-end border-t border-gray-800 pt-6">
+      <div className="mt-8 flex justify-end gap-2 border-t border-gray-800 pt-6">
+        {editingPost && (
+          <Button onClick={handleCancelEdit} variant="secondary" disabled={publishing}>
+            Cancel Edit
+          </Button>
+        )}
         <Button 
           onClick={handlePublish} 
+          isLoading={publishing}
           disabled={!draft.title || !draft.content} 
           variant="neon"
           className="w-full lg:w-auto"
         >
-          Publish Post
+          {editingPost ? 'Save Changes' : 'Publish Post'}
         </Button>
       </div>
+
+      {showLibrary && (
+        <MediaLibrary
+          onClose={() => setShowLibrary(false)}
+          onSelect={handleLibrarySelect}
+          pinnedIds={inUseMediaIds()}
+        />
+      )}
     </div>
   );
 };
\ No newline at end of file
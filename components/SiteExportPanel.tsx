@@ -0,0 +1,108 @@
+import React, { useState } from 'react';
+import { buildSite, SiteOptions } from '../services/siteExporter';
+import { BlogPost } from '../types';
+import { Button } from './Button';
+
+interface SiteExportPanelProps {
+  posts: BlogPost[];
+  onClose: () => void;
+}
+
+const SITE_OPTIONS_KEY = 'senhor_gotico_site_options';
+
+const DEFAULT_OPTIONS: SiteOptions = {
+  siteUrl: 'https://example.com',
+  title: 'Senhor Gótico',
+  description: 'Dark alternative music reviews: goth, industrial, darkwave and beyond.'
+};
+
+const loadOptions = (): SiteOptions => {
+  try {
+    const saved = localStorage.getItem(SITE_OPTIONS_KEY);
+    return saved ? { ...DEFAULT_OPTIONS, ...JSON.parse(saved) } : DEFAULT_OPTIONS;
+  } catch {
+    return DEFAULT_OPTIONS;
+  }
+};
+
+export const SiteExportPanel: React.FC<SiteExportPanelProps> = ({ posts, onClose }) => {
+  const [options, setOptions] = useState<SiteOptions>(loadOptions);
+  const [building, setBuilding] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const publishedCount = posts.filter(p => p.status === 'published').length;
+  const validUrl = /^https?:\/\/[^\s/]+/i.test(options.siteUrl.trim());
+
+  const handleBuild = async () => {
+    setBuilding(true);
+    setError(null);
+    try {
+      localStorage.setItem(SITE_OPTIONS_KEY, JSON.stringify(options));
+      const zip = await buildSite(posts, options);
+      const url = URL.createObjectURL(zip);
+      const link = document.createElement('a');
+      link.href = url;
+      link.download = `senhor-gotico-site-${new Date().toISOString().slice(0, 10)}.zip`;
+      link.click();
+      setTimeout(() => URL.revokeObjectURL(url), 1000);
+    } catch (e) {
+      console.error("Site export failed", e);
+      setError("Could not build the site.");
+    } finally {
+      setBuilding(false);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 bg-black/80 flex items-center justify-center p-4" onClick={onClose}>
+      <div className="bg-panel border border-gray-700 rounded-xl p-6 w-full max-w-md shadow-2xl animate-fade-in" onClick={e => e.stopPropagation()}>
+        <div className="flex justify-between items-center mb-4 border-l-4 border-acid pl-3">
+          <h2 className="text-xl font-black text-white">BUILD SITE</h2>
+          <button onClick={onClose} className="text-gray-500 hover:text-white">
+            <span className="material-icons">close</span>
+          </button>
+        </div>
+
+        <p className="text-gray-400 text-sm mb-4">
+          Exports {publishedCount} published {publishedCount === 1 ? 'post' : 'posts'} as a static site (zip) with genre pages, RSS/Atom/JSON feeds per genre and tag, a sitemap and robots.txt.
+        </p>
+
+        <div className="space-y-3">
+          <div>
+            <label className="block text-gray-400 text-[10px] font-bold uppercase mb-1">Site URL</label>
+            <input
+              value={options.siteUrl}
+              onChange={e => setOptions({ ...options, siteUrl: e.target.value })}
+              className={`w-full bg-deep border p-2 rounded text-white text-sm outline-none ${validUrl ? 'border-gray-700 focus:border-acid' : 'border-red-500'}`}
+              placeholder="https://senhorgotico.com"
+            />
+          </div>
+          <div>
+            <label className="block text-gray-400 text-[10px] font-bold uppercase mb-1">Site Title</label>
+            <input
+              value={options.title}
+              onChange={e => setOptions({ ...options, title: e.target.value })}
+              className="w-full bg-deep border border-gray-700 p-2 rounded text-white text-sm focus:border-acid outline-none"
+            />
+          </div>
+          <div>
+            <label className="block text-gray-400 text-[10px] font-bold uppercase mb-1">Site Description</label>
+            <textarea
+              value={options.description}
+              onChange={e => setOptions({ ...options, description: e.target.value })}
+              className="w-full bg-deep border border-gray-700 p-2 rounded text-white text-sm focus:border-acid outline-none resize-none h-16"
+            />
+          </div>
+        </div>
+
+        {error && <p className="text-red-400 text-sm mt-3">{error}</p>}
+
+        <div className="mt-6 flex justify-end">
+          <Button onClick={handleBuild} isLoading={building} disabled={!validUrl || !options.title.trim()} variant="neon">
+            <span className="material-icons text-sm">download</span> Download Zip
+          </Button>
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -1,55 +1,85 @@
 import React, { useState } from 'react';
-import { generateVeoVideo } from '../services/geminiService';
+import { DEFAULT_VIDEO_SETTINGS, getAIProvider, InlineImage, MAX_VIDEO_TAKES } from '../services/aiProvider';
+import { blobToDataUrl } from '../services/mediaLibrary';
+import { enqueueVeoJob } from '../services/veoJobs';
+import { VideoAspectRatio, VideoQuality, VideoResolution, VideoSettings } from '../types';
 import { Button } from './Button';
 
 interface VeoGeneratorProps {
-  imageBase64: string | null;
-  onVideoGenerated: (url: string) => void;
+  // data: or blob: URL of the cover art; null for text-to-video only
+  imageSrc: string | null;
 }
 
-export const VeoGenerator: React.FC<VeoGeneratorProps> = ({ imageBase64, onVideoGenerated }) => {
+const VIDEO_SETTINGS_KEY = 'senhor_gotico_veo_settings';
+
+const ASPECT_RATIOS: { value: VideoAspectRatio, label: string, icon: string }[] = [
+  { value: '16:9', label: '16:9 Landscape', icon: 'crop_landscape' },
+  { value: '9:16', label: '9:16 Reels / Shorts', icon: 'crop_portrait' },
+];
+
+const RESOLUTIONS: VideoResolution[] = ['720p', '1080p'];
+
+const QUALITIES: { value: VideoQuality, label: string }[] = [
+  { value: 'fast', label: 'Fast' },
+  { value: 'quality', label: 'Quality' },
+];
+
+const loadSettings = (): VideoSettings => {
+  try {
+    const saved = localStorage.getItem(VIDEO_SETTINGS_KEY);
+    return saved ? { ...DEFAULT_VIDEO_SETTINGS, ...JSON.parse(saved) } : DEFAULT_VIDEO_SETTINGS;
+  } catch {
+    return DEFAULT_VIDEO_SETTINGS;
+  }
+};
+
+// Keeps the image's real mime type; stored posts hand us blob: URLs rather than data: URLs
+const toInlineImage = async (src: string): Promise<InlineImage> => {
+  const match = src.match(/^data:([^;,]+);base64,(.*)$/);
+  if (match) return { mimeType: match[1], data: match[2] };
+
+  const blob = await (await fetch(src)).blob();
+  const dataUrl = await blobToDataUrl(blob);
+  return { mimeType: blob.type || 'image/png', data: dataUrl.split(',')[1] };
+};
+
+export const VeoGenerator: React.FC<VeoGeneratorProps> = ({ imageSrc }) => {
   const [prompt, setPrompt] = useState('');
+  const [settings, setSettings] = useState<VideoSettings>(loadSettings);
+  const [useCover, setUseCover] = useState(true);
   const [loading, setLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
-  const [previewUrl, setPreviewUrl] = useState<string | null>(null);
+
+  const fromImage = !!imageSrc && useCover;
+  const canGenerate = fromImage || prompt.trim().length > 0;
+
+  const updateSettings = (changes: Partial<VideoSettings>) => {
+    const next = { ...settings, ...changes };
+    setSettings(next);
+    localStorage.setItem(VIDEO_SETTINGS_KEY, JSON.stringify(next));
+  };
 
   const handleGenerate = async () => {
-    if (!imageBase64) return;
+    if (!canGenerate) return;
     setLoading(true);
     setError(null);
-    // Clear previous preview if regenerating
-    setPreviewUrl(null);
 
     try {
-      // Check API Key using the injected global
-      // @ts-ignore
-      if (window.aistudio && !await window.aistudio.hasSelectedApiKey()) {
-        // @ts-ignore
-        await window.aistudio.openSelectKey();
-        // Check again after modal interaction
-         // @ts-ignore
-         if (!await window.aistudio.hasSelectedApiKey()) {
-           throw new Error("API Key selection required for Veo.");
-         }
-      }
-
-      const url = await generateVeoVideo(imageBase64.split(',')[1], prompt);
-      setPreviewUrl(url);
+      // Rendering continues in the queue, even across reloads
+      await enqueueVeoJob({
+        prompt,
+        image: fromImage ? await toInlineImage(imageSrc!) : undefined,
+        settings: { ...settings, negativePrompt: settings.negativePrompt.trim() },
+      });
     } catch (err: any) {
-      if (err.message === 'API_KEY_REQUIRED' || err.toString().includes('API_KEY_REQUIRED')) {
-         setError("Billing enabled API key required.");
-         // @ts-ignore
-         if (window.aistudio) window.aistudio.openSelectKey();
-      } else {
-        setError("Video generation failed. This can take minutes.");
-      }
+      setError(err?.message ? `Could not queue the video: ${err.message}` : "Could not queue the video.");
       console.error(err);
     } finally {
       setLoading(false);
     }
   };
 
-  if (!imageBase64) return null;
+  if (!getAIProvider().capabilities.has('video')) return null;
 
   return (
     <div className="mt-4 p-4 border border-gray-700 bg-black rounded">
@@ -57,36 +87,92 @@ export const VeoGenerator: React.FC<VeoGeneratorProps> = ({ imageBase64, onVideo
         <span className="material-icons">movie</span> Veo Animator
       </h3>
 
-      {/* Preview Section */}
-      {previewUrl && (
-        <div className="mb-6 bg-gray-900/50 p-3 rounded border border-gray-700 animate-fade-in">
-            <div className="text-xs text-neon font-bold uppercase mb-2">Preview</div>
-            <video src={previewUrl} autoPlay loop muted controls className="w-full rounded border border-gray-800 mb-3 shadow-lg" />
-            <div className="flex gap-2">
-                <Button onClick={() => onVideoGenerated(previewUrl)} variant="neon" className="flex-1">
-                    <span className="material-icons text-sm">check</span> Use This Video
-                </Button>
-                <Button onClick={() => setPreviewUrl(null)} variant="danger" className="!px-3">
-                    <span className="material-icons text-sm">close</span>
-                </Button>
-            </div>
-        </div>
-      )}
-      
       <p className="text-gray-400 text-sm mb-4">
-        Turn your cover art into a 720p video loop. *Requires paid API key.*
+        {fromImage ? 'Turn your cover art into a video loop.' : 'Generate a video from a text prompt alone.'}
+        {' '}Jobs run in the queue and survive a reload. *Requires paid API key.*
       </p>
-      
+
+      {imageSrc && (
+        <label className="flex items-center gap-2 text-xs text-gray-400 mb-3 cursor-pointer">
+          <input type="checkbox" checked={useCover} onChange={(e) => setUseCover(e.target.checked)} className="accent-neon" />
+          Start from the cover image
+        </label>
+      )}
+
+      <div className="grid grid-cols-2 gap-3 mb-3">
+        <div className="col-span-2">
+          <label className="block text-gray-400 text-[10px] font-bold uppercase mb-1">Aspect Ratio</label>
+          <div className="flex gap-2">
+            {ASPECT_RATIOS.map(ratio => (
+              <button
+                key={ratio.value}
+                onClick={() => updateSettings({ aspectRatio: ratio.value })}
+                className={`flex-1 flex items-center justify-center gap-1 text-xs p-2 rounded border transition-colors ${settings.aspectRatio === ratio.value ? 'border-neon text-neon' : 'border-gray-700 text-gray-400 hover:border-gray-500'}`}
+              >
+                <span className="material-icons text-sm">{ratio.icon}</span> {ratio.label}
+              </button>
+            ))}
+          </div>
+        </div>
+
+        <div>
+          <label className="block text-gray-400 text-[10px] font-bold uppercase mb-1">Resolution</label>
+          <select
+            value={settings.resolution}
+            onChange={(e) => updateSettings({ resolution: e.target.value as VideoResolution })}
+            className="w-full bg-gray-800 border border-gray-600 p-2 text-white text-sm rounded focus:border-neon outline-none"
+          >
+            {RESOLUTIONS.map(resolution => <option key={resolution} value={resolution}>{resolution}</option>)}
+          </select>
+        </div>
+
+        <div>
+          <label className="block text-gray-400 text-[10px] font-bold uppercase mb-1">Model</label>
+          <select
+            value={settings.quality}
+            onChange={(e) => updateSettings({ quality: e.target.value as VideoQuality })}
+            className="w-full bg-gray-800 border border-gray-600 p-2 text-white text-sm rounded focus:border-neon outline-none"
+          >
+            {QUALITIES.map(quality => <option key={quality.value} value={quality.value}>{quality.label}</option>)}
+          </select>
+        </div>
+
+        <div className="col-span-2">
+          <label className="block text-gray-400 text-[10px] font-bold uppercase mb-1">Takes: {settings.takes}</label>
+          <input
+            type="range"
+            min={1}
+            max={MAX_VIDEO_TAKES}
+            value={settings.takes}
+            onChange={(e) => updateSettings({ takes: Number(e.target.value) })}
+            className="w-full accent-neon"
+          />
+        </div>
+
+        <div className="col-span-2">
+          <label className="block text-gray-400 text-[10px] font-bold uppercase mb-1">Negative Prompt</label>
+          <input
+            type="text"
+            value={settings.negativePrompt}
+            onChange={(e) => updateSettings({ negativePrompt: e.target.value })}
+            placeholder="What to avoid (e.g. 'text, watermarks, bright daylight')"
+            className="w-full bg-gray-800 border border-gray-600 p-2 text-white text-sm rounded focus:border-neon outline-none"
+          />
+        </div>
+      </div>
+
       <div className="flex gap-2 mb-3">
         <input
           type="text"
           value={prompt}
           onChange={(e) => setPrompt(e.target.value)}
-          placeholder="Describe the motion (e.g. 'Camera pans right, neon lights flicker')"
+          placeholder={fromImage
+            ? "Describe the motion (e.g. 'Camera pans right, neon lights flicker')"
+            : "Describe the scene (e.g. 'Fog rolls through a candlelit crypt')"}
           className="flex-1 bg-gray-800 border border-gray-600 p-2 text-white rounded focus:border-neon outline-none"
         />
-        <Button onClick={handleGenerate} isLoading={loading} variant="secondary">
-          {previewUrl ? 'Regenerate' : 'Animate'}
+        <Button onClick={handleGenerate} isLoading={loading} disabled={!canGenerate} variant="secondary">
+          Animate
         </Button>
       </div>
 
@@ -96,12 +182,6 @@ export const VeoGenerator: React.FC<VeoGeneratorProps> = ({ imageBase64, onVideo
            <a href="https://ai.google.dev/gemini-api/docs/billing" target="_blank" className="underline" rel="noreferrer">Billing Docs</a>
          </div>
       )}
-      
-      {loading && (
-        <div className="text-center py-4">
-            <p className="text-acid animate-pulse">Generating video (this may take a minute)...</p>
-        </div>
-      )}
     </div>
   );
-};
\ No newline at end of file
+};
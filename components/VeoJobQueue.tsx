@@ -0,0 +1,106 @@
+import React, { useSyncExternalStore } from 'react';
+import { VeoJobStatus } from '../types';
+import { cancelVeoJob, getVeoJobs, removeVeoJob, retryVeoJob, subscribeVeoJobs } from '../services/veoJobs';
+import { Button } from './Button';
+
+interface VeoJobQueueProps {
+  onUseVideo: (mediaId: string) => void;
+}
+
+const STATUS_STYLES: Record<VeoJobStatus, string> = {
+  queued: 'text-gray-400 border-gray-600',
+  running: 'text-neon border-neon animate-pulse',
+  done: 'text-acid border-acid',
+  failed: 'text-red-400 border-red-500',
+  cancelled: 'text-gray-500 border-gray-700',
+};
+
+export const VeoJobQueue: React.FC<VeoJobQueueProps> = ({ onUseVideo }) => {
+  const jobs = useSyncExternalStore(subscribeVeoJobs, getVeoJobs);
+
+  if (jobs.length === 0) return null;
+
+  const active = jobs.filter(job => job.status === 'queued' || job.status === 'running').length;
+
+  return (
+    <div className="p-4 border border-gray-700 bg-black rounded">
+      <h3 className="text-neon font-bold mb-3 flex items-center gap-2">
+        <span className="material-icons">queue</span> Veo Queue
+        {active > 0 && <span className="text-xs text-gray-400 font-normal">({active} in progress)</span>}
+      </h3>
+
+      <ul className="space-y-3">
+        {jobs.map(job => (
+          <li key={job.id} className="bg-gray-900/50 p-2 rounded border border-gray-800">
+            <div className="flex gap-3 items-start">
+              {job.videoUrls.length > 0 ? (
+                <video src={job.videoUrls[0]} muted loop autoPlay className="w-24 h-14 object-cover rounded border border-gray-700" />
+              ) : job.sourceImage ? (
+                <img src={`data:${job.sourceMimeType || 'image/png'};base64,${job.sourceImage}`} alt="" className="w-24 h-14 object-cover rounded border border-gray-700 opacity-60" />
+              ) : (
+                <div className="w-24 h-14 flex items-center justify-center rounded border border-gray-700 text-gray-600">
+                  <span className="material-icons">text_fields</span>
+                </div>
+              )}
+
+              <div className="flex-1 min-w-0">
+                <div className="flex items-center gap-2 mb-1">
+                  <span className={`text-[10px] font-bold uppercase px-1.5 py-0.5 border rounded ${STATUS_STYLES[job.status]}`}>
+                    {job.status}
+                  </span>
+                  <span className="text-xs text-gray-500 truncate">{job.error || job.progress}</span>
+                </div>
+                <p className="text-sm text-gray-300 truncate" title={job.prompt}>
+                  {job.prompt || <span className="italic text-gray-500">No prompt</span>}
+                </p>
+                <p className="text-[10px] text-gray-500 uppercase">
+                  {job.settings.aspectRatio} · {job.settings.resolution} · {job.settings.quality}
+                  {job.settings.takes > 1 && ` · ${job.settings.takes} takes`}
+                </p>
+              </div>
+
+              <div className="flex gap-1">
+                {job.status === 'done' && job.videoUrls.length === 1 && (
+                  <Button onClick={() => onUseVideo(job.mediaIds[0])} variant="neon" className="!px-2 !py-1 text-xs" title="Use this video">
+                    <span className="material-icons text-sm">check</span>
+                  </Button>
+                )}
+                {(job.status === 'failed' || job.status === 'cancelled') && (
+                  <Button onClick={() => retryVeoJob(job.id)} variant="secondary" className="!px-2 !py-1 text-xs" title="Retry">
+                    <span className="material-icons text-sm">refresh</span>
+                  </Button>
+                )}
+                {job.status === 'queued' || job.status === 'running' ? (
+                  <Button onClick={() => cancelVeoJob(job.id)} variant="secondary" className="!px-2 !py-1 text-xs" title="Cancel">
+                    <span className="material-icons text-sm">stop</span>
+                  </Button>
+                ) : (
+                  <Button onClick={() => removeVeoJob(job.id)} variant="danger" className="!px-2 !py-1 text-xs" title="Remove">
+                    <span className="material-icons text-sm">delete</span>
+                  </Button>
+                )}
+              </div>
+            </div>
+
+            {/* Take picker: compare every take side by side */}
+            {job.status === 'done' && job.videoUrls.length > 1 && (
+              <div className="grid grid-cols-2 gap-2 mt-2">
+                {job.videoUrls.map((url, take) => (
+                  <div key={url} className="relative group">
+                    <video src={url} muted loop autoPlay controls className="w-full rounded border border-gray-700" />
+                    <div className="absolute top-1 left-1 bg-black/70 px-1.5 py-0.5 rounded text-[10px] text-neon font-bold">
+                      TAKE {take + 1}
+                    </div>
+                    <Button onClick={() => onUseVideo(job.mediaIds[take])} variant="neon" className="absolute top-1 right-1 !px-2 !py-1 text-xs" title={`Use take ${take + 1}`}>
+                      <span className="material-icons text-sm">check</span>
+                    </Button>
+                  </div>
+                ))}
+              </div>
+            )}
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+};
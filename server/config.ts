@@ -0,0 +1,52 @@
+// --- Server Configuration ---
+// Everything secret or abusable lives here, on the server, never in the bundle.
+
+export const PORT = Number(process.env.PORT || 8787);
+
+export const GEMINI_API_KEY = process.env.GEMINI_API_KEY || process.env.API_KEY || '';
+
+// Only these models may be requested by the browser. The first entry is the default.
+export const ALLOWED_MODELS = {
+  text: ['gemini-2.5-flash'],
+  image: ['gemini-2.5-flash-image'],
+  imageGenerate: ['imagen-4.0-generate-001', 'imagen-4.0-fast-generate-001'],
+  video: ['veo-3.1-fast-generate-preview', 'veo-3.1-generate-preview'],
+  live: ['gemini-2.5-flash-native-audio-preview-09-2025'],
+} as const;
+
+export type ModelKind = keyof typeof ALLOWED_MODELS;
+
+// Veo options the browser may pick from
+export const VIDEO_OPTIONS = {
+  aspectRatios: ['16:9', '9:16'],
+  resolutions: ['720p', '1080p'],
+  imageMimeTypes: ['image/png', 'image/jpeg', 'image/webp'],
+  maxTakes: 4,
+} as const;
+
+// Cover art options the browser may pick from
+export const IMAGE_OPTIONS = {
+  aspectRatios: ['1:1', '4:3', '3:4', '16:9', '9:16'],
+  maxImages: 4,
+} as const;
+
+const KB = 1024;
+const MB = 1024 * KB;
+
+// Maximum accepted request body per route, in bytes
+export const BODY_LIMITS = {
+  analyze: 4 * KB,
+  resolveLink: 4 * KB,
+  seo: 64 * KB,
+  transcriptDraft: 256 * KB,
+  // Three minutes of 16 kHz mono WAV, base64 encoded
+  audioCritique: 8 * MB,
+  coverPrompt: 64 * KB,
+  imageGenerate: 8 * KB,
+  imageEdit: 12 * MB,
+  veoStart: 12 * MB,
+  veoPoll: 2 * KB,
+} as const;
+
+// Largest single WebSocket frame accepted from the browser on the Live relay
+export const LIVE_MAX_MESSAGE = 1 * MB;
@@ -0,0 +1,245 @@
+import { GenerateVideosOperation, GoogleGenAI, Part } from '@google/genai';
+import {
+  AUDIO_CRITIQUE_SPEC,
+  AudioCritiqueResult,
+  buildAudioCritiquePrompt,
+  buildCoverImagePrompt,
+  buildCoverPrompt,
+  buildDraftPrompt,
+  buildMaskedEditPrompt,
+  buildResearchPrompt,
+  buildSeoPrompt,
+  buildTranscriptDraftPrompt,
+  buildVideoDraftPrompt,
+  COVER_PROMPT_SPEC,
+  POST_DRAFT_SPEC,
+  PostDraftResult,
+  SEO_SPEC,
+  SeoResult,
+  VIDEO_DRAFT_SPEC,
+} from '../services/aiPrompts';
+import type { AudioClip, LinkAnalysis } from '../services/aiProvider';
+import { Genre, SourceLink } from '../types';
+import { generateStructured, StructuredCompletion } from '../services/structuredOutput';
+import { GEMINI_API_KEY } from './config';
+import { HttpError } from './http';
+
+// --- Server-side Gemini Calls ---
+
+let client: GoogleGenAI | null = null;
+
+export const getClient = () => {
+  if (!GEMINI_API_KEY) {
+    throw new HttpError(500, 'GEMINI_API_KEY is not configured on the server');
+  }
+  if (!client) {
+    client = new GoogleGenAI({ apiKey: GEMINI_API_KEY });
+  }
+  return client;
+};
+
+// `media` goes ahead of the first turn's text, e.g. audio the prompt talks about
+const completeJson = (model: string, media?: Part): StructuredCompletion => async (turns, schema) => {
+  const response = await getClient().models.generateContent({
+    model,
+    contents: turns.map((turn, i) => ({
+      role: turn.role,
+      parts: i === 0 && media ? [media, { text: turn.text }] : [{ text: turn.text }],
+    })),
+    config: {
+      responseMimeType: 'application/json',
+      responseSchema: schema,
+    },
+  });
+  return response.text || '';
+};
+
+// --- Video Understanding & Search Grounding ---
+
+// Gemini watches public YouTube videos itself when given the URL as file data
+const analyzeVideo = async (model: string, link: SourceLink): Promise<LinkAnalysis> => {
+  const { highlights, ...draft } = await generateStructured(completeJson(model, { fileData: { fileUri: link.url } }), {
+    spec: VIDEO_DRAFT_SPEC,
+    prompt: buildVideoDraftPrompt(link.url, link),
+  });
+  return { ...draft, sources: [], mode: 'video', highlights, link };
+};
+
+const researchLink = async (model: string, url: string, link: SourceLink | null): Promise<LinkAnalysis> => {
+  // Step 1: Search grounding. JSON response mode cannot be combined with the
+  // search tool, so gather facts as free text first...
+  const research = await getClient().models.generateContent({
+    model,
+    contents: buildResearchPrompt(url, link),
+    config: {
+      tools: [{ googleSearch: {} }],
+    },
+  });
+
+  const notes = research.text || '';
+  const chunks = research.candidates?.[0]?.groundingMetadata?.groundingChunks || [];
+  const sources = chunks
+    .map(c => c.web)
+    .filter((web): web is { uri: string, title?: string } => !!web?.uri)
+    .map(web => ({ uri: web.uri, title: web.title || web.uri }));
+
+  // Step 2: ...then turn the notes into a schema-validated draft without tools
+  const draft = await generateStructured(completeJson(model), {
+    spec: POST_DRAFT_SPEC,
+    prompt: buildDraftPrompt(url, notes),
+  });
+
+  return { ...draft, sources, mode: 'search', highlights: [], link };
+};
+
+// `link` is what server/linkMetadata.ts made of the URL
+export const analyzeLink = async (model: string, url: string, link: SourceLink | null): Promise<LinkAnalysis> => {
+  if (link?.platform === 'youtube') {
+    try {
+      return await analyzeVideo(model, link);
+    } catch (e) {
+      // Private, region-locked or overlong videos cannot be processed; research them instead
+      console.warn(`Video analysis of ${url} failed, falling back to search`, e);
+    }
+  }
+  return researchLink(model, url, link);
+};
+
+export const optimizePostMetadata = (model: string, title: string, content: string): Promise<SeoResult> =>
+  generateStructured(completeJson(model), {
+    spec: SEO_SPEC,
+    prompt: buildSeoPrompt(title, content),
+  });
+
+export const draftFromTranscript = (model: string, transcript: string): Promise<PostDraftResult> =>
+  generateStructured(completeJson(model), {
+    spec: POST_DRAFT_SPEC,
+    prompt: buildTranscriptDraftPrompt(transcript),
+  });
+
+// --- Audio Understanding ---
+
+export const critiqueAudio = (model: string, clip: AudioClip): Promise<AudioCritiqueResult> =>
+  generateStructured(completeJson(model, { inlineData: { data: clip.data, mimeType: 'audio/wav' } }), {
+    spec: AUDIO_CRITIQUE_SPEC,
+    prompt: buildAudioCritiquePrompt(clip.name, clip.duration, clip.sourceDuration),
+  });
+
+// --- Cover Art Generation (Imagen) ---
+
+export const writeCoverPrompt = async (model: string, title: string, genre: Genre, content: string): Promise<string> => {
+  const { prompt } = await generateStructured(completeJson(model), {
+    spec: COVER_PROMPT_SPEC,
+    prompt: buildCoverPrompt(title, genre, content),
+  });
+  return prompt;
+};
+
+export interface ImageOptions {
+  prompt: string;
+  style: Genre;
+  aspectRatio: string;
+  numberOfImages: number;
+}
+
+export const generateImages = async (model: string, options: ImageOptions): Promise<{ data: string, mimeType: string }[]> => {
+  const response = await getClient().models.generateImages({
+    model,
+    prompt: buildCoverImagePrompt(options.prompt, options.style),
+    config: {
+      numberOfImages: options.numberOfImages,
+      aspectRatio: options.aspectRatio,
+      outputMimeType: 'image/png',
+    },
+  });
+
+  const images = (response.generatedImages || [])
+    .map(generated => generated.image)
+    .filter(image => !!image?.imageBytes)
+    .map(image => ({ data: image!.imageBytes!, mimeType: image!.mimeType || 'image/png' }));
+  // Every candidate can be dropped by the safety filters
+  if (!images.length) throw new HttpError(502, 'No images generated; try a different prompt');
+  return images;
+};
+
+// --- Image Editing (Nano Banana) ---
+
+export const editImage = async (model: string, imageBase64: string, prompt: string, maskBase64?: string): Promise<string> => {
+  const image = { inlineData: { mimeType: 'image/png', data: imageBase64 } };
+  const parts = maskBase64
+    ? [image, { inlineData: { mimeType: 'image/png', data: maskBase64 } }, { text: buildMaskedEditPrompt(prompt) }]
+    : [image, { text: prompt }];
+
+  const response = await getClient().models.generateContent({
+    model,
+    contents: { parts },
+  });
+
+  for (const part of response.candidates?.[0]?.content?.parts || []) {
+    if (part.inlineData?.data) {
+      return part.inlineData.data; // Returns base64
+    }
+  }
+  throw new HttpError(502, 'No image generated');
+};
+
+// --- Video Generation (Veo) ---
+
+export interface VideoOptions {
+  prompt: string;
+  image?: { data: string, mimeType: string };
+  negativePrompt?: string;
+  aspectRatio: string;
+  resolution: string;
+  numberOfVideos: number;
+}
+
+export const startVideo = async (model: string, options: VideoOptions): Promise<string> => {
+  const operation = await getClient().models.generateVideos({
+    model,
+    prompt: options.prompt || "Animate this image cinematically",
+    ...(options.image ? { image: { imageBytes: options.image.data, mimeType: options.image.mimeType } } : {}),
+    config: {
+      numberOfVideos: options.numberOfVideos,
+      resolution: options.resolution,
+      aspectRatio: options.aspectRatio,
+      ...(options.negativePrompt ? { negativePrompt: options.negativePrompt } : {}),
+    }
+  });
+  if (!operation.name) throw new HttpError(502, 'Veo did not return an operation name');
+  return operation.name;
+};
+
+const getOperation = (name: string) => {
+  const operation = new GenerateVideosOperation();
+  operation.name = name;
+  return getClient().operations.getVideosOperation({ operation });
+};
+
+export interface VideoStatus {
+  done: boolean;
+  videoCount: number;
+  error?: string;
+}
+
+export const pollVideo = async (name: string): Promise<VideoStatus> => {
+  const operation = await getOperation(name);
+  const videos = operation.response?.generatedVideos || [];
+  const error = operation.error ? String(operation.error.message || 'Video generation failed') : undefined;
+  return { done: !!operation.done, videoCount: videos.length, error };
+};
+
+// Fetches a finished video from Google with the server's key. The browser only
+// ever names the operation, so it cannot make us fetch arbitrary URLs.
+export const downloadVideo = async (name: string, index: number): Promise<Response> => {
+  const operation = await getOperation(name);
+  if (!operation.done) throw new HttpError(409, 'Video is not ready yet');
+  const uri = operation.response?.generatedVideos?.[index]?.video?.uri;
+  if (!uri) throw new HttpError(404, 'No video at that index');
+
+  const response = await fetch(uri, { headers: { 'x-goog-api-key': GEMINI_API_KEY } });
+  if (!response.ok || !response.body) {
+    throw new HttpError(502, `Video download failed (${response.status})`);
+  }
+  return response;
+};
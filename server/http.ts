@@ -0,0 +1,68 @@
+import { IncomingMessage, ServerResponse } from 'node:http';
+import { ALLOWED_MODELS, ModelKind } from './config';
+
+// --- HTTP Helpers ---
+
+export class HttpError extends Error {
+  constructor(public readonly status: number, message: string, public readonly details?: Record<string, unknown>) {
+    super(message);
+    this.name = 'HttpError';
+  }
+}
+
+export const readJsonBody = async (req: IncomingMessage, limit: number): Promise<any> => {
+  const declared = Number(req.headers['content-length'] || 0);
+  if (declared > limit) {
+    throw new HttpError(413, `Request body exceeds ${limit} bytes`);
+  }
+
+  const chunks: Buffer[] = [];
+  let size = 0;
+  for await (const chunk of req) {
+    size += chunk.length;
+    if (size > limit) {
+      req.destroy();
+      throw new HttpError(413, `Request body exceeds ${limit} bytes`);
+    }
+    chunks.push(chunk);
+  }
+
+  if (size === 0) return {};
+  try {
+    return JSON.parse(Buffer.concat(chunks).toString('utf8'));
+  } catch {
+    throw new HttpError(400, 'Request body is not valid JSON');
+  }
+};
+
+export const sendJson = (res: ServerResponse, status: number, body: unknown) => {
+  res.writeHead(status, { 'Content-Type': 'application/json; charset=utf-8' });
+  res.end(JSON.stringify(body));
+};
+
+export const requireString = (value: unknown, field: string, maxLength = Infinity): string => {
+  if (typeof value !== 'string' || !value.trim()) {
+    throw new HttpError(400, `"${field}" is required`);
+  }
+  if (value.length > maxLength) {
+    throw new HttpError(400, `"${field}" is too long`);
+  }
+  return value;
+};
+
+export const resolveModel = (kind: ModelKind, requested: unknown): string => {
+  const allowed: readonly string[] = ALLOWED_MODELS[kind];
+  if (requested === undefined || requested === null || requested === '') return allowed[0];
+  if (typeof requested !== 'string' || !allowed.includes(requested)) {
+    throw new HttpError(400, `Model "${String(requested)}" is not allowed for ${kind}`);
+  }
+  return requested;
+};
+
+export const requireOneOf = <T extends string>(value: unknown, field: string, allowed: readonly T[], fallback: T): T => {
+  if (value === undefined || value === null || value === '') return fallback;
+  if (typeof value !== 'string' || !allowed.includes(value as T)) {
+    throw new HttpError(400, `"${field}" must be one of ${allowed.join(', ')}`);
+  }
+  return value as T;
+};
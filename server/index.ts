@@ -0,0 +1,236 @@
+import { createReadStream, existsSync, statSync } from 'node:fs';
+import { createServer, IncomingMessage, ServerResponse } from 'node:http';
+import path from 'node:path';
+import { Readable } from 'node:stream';
+import { pipeline } from 'node:stream/promises';
+import { ReadableStream } from 'node:stream/web';
+import { fileURLToPath } from 'node:url';
+import { StructuredOutputError } from '../services/structuredOutput';
+import { GENRES } from '../types';
+import { BODY_LIMITS, IMAGE_OPTIONS, PORT, VIDEO_OPTIONS } from './config';
+import * as gemini from './gemini';
+import { HttpError, readJsonBody, requireOneOf, requireString, resolveModel, sendJson } from './http';
+import { resolveLink } from './linkMetadata';
+import { createLiveRelay } from './liveRelay';
+
+// --- API Server ---
+// Holds the Gemini key and proxies every AI call the browser makes.
+// In production it also serves the built frontend from dist/.
+
+type Handler = (req: IncomingMessage, res: ServerResponse, url: URL) => Promise<void>;
+
+const routes: Record<string, Handler> = {
+  'POST /api/analyze': async (req, res) => {
+    const body = await readJsonBody(req, BODY_LIMITS.analyze);
+    const url = requireString(body.url, 'url', 2048);
+    const link = await resolveLink(url);
+    sendJson(res, 200, await gemini.analyzeLink(resolveModel('text', body.model), link?.url || url, link));
+  },
+
+  'POST /api/resolve-link': async (req, res) => {
+    const body = await readJsonBody(req, BODY_LIMITS.resolveLink);
+    const link = await resolveLink(requireString(body.url, 'url', 2048));
+    if (!link) throw new HttpError(400, 'Not a YouTube, Bandcamp, Spotify, SoundCloud or Apple Music link');
+    sendJson(res, 200, link);
+  },
+
+  'POST /api/seo': async (req, res) => {
+    const body = await readJsonBody(req, BODY_LIMITS.seo);
+    const title = requireString(body.title, 'title', 500);
+    const content = requireString(body.content, 'content');
+    sendJson(res, 200, await gemini.optimizePostMetadata(resolveModel('text', body.model), title, content));
+  },
+
+  'POST /api/transcript-draft': async (req, res) => {
+    const body = await readJsonBody(req, BODY_LIMITS.transcriptDraft);
+    const transcript = requireString(body.transcript, 'transcript');
+    sendJson(res, 200, await gemini.draftFromTranscript(resolveModel('text', body.model), transcript));
+  },
+
+  'POST /api/audio-critique': async (req, res) => {
+    const body = await readJsonBody(req, BODY_LIMITS.audioCritique);
+    const data = requireString(body.data, 'data');
+    const name = requireString(body.name, 'name', 300);
+    const duration = Number(body.duration);
+    const sourceDuration = Number(body.sourceDuration);
+    if (!(duration > 0) || !(sourceDuration >= duration)) {
+      throw new HttpError(400, '"duration" and "sourceDuration" must be positive and in order');
+    }
+    sendJson(res, 200, await gemini.critiqueAudio(resolveModel('text', body.model), { data, name, duration, sourceDuration }));
+  },
+
+  'POST /api/cover-prompt': async (req, res) => {
+    const body = await readJsonBody(req, BODY_LIMITS.coverPrompt);
+    const title = requireString(body.title, 'title', 500);
+    const genre = requireOneOf(body.genre, 'genre', GENRES, 'Other');
+    const content = typeof body.content === 'string' ? body.content : '';
+    sendJson(res, 200, { prompt: await gemini.writeCoverPrompt(resolveModel('text', body.model), title, genre, content) });
+  },
+
+  'POST /api/image-generate': async (req, res) => {
+    const body = await readJsonBody(req, BODY_LIMITS.imageGenerate);
+    const prompt = requireString(body.prompt, 'prompt', 2000);
+    const numberOfImages = body.numberOfImages === undefined ? 1 : Number(body.numberOfImages);
+    if (!Number.isInteger(numberOfImages) || numberOfImages < 1 || numberOfImages > IMAGE_OPTIONS.maxImages) {
+      throw new HttpError(400, `"numberOfImages" must be between 1 and ${IMAGE_OPTIONS.maxImages}`);
+    }
+
+    const images = await gemini.generateImages(resolveModel('imageGenerate', body.model), {
+      prompt,
+      style: requireOneOf(body.style, 'style', GENRES, 'Other'),
+      aspectRatio: requireOneOf(body.aspectRatio, 'aspectRatio', IMAGE_OPTIONS.aspectRatios, '1:1'),
+      numberOfImages,
+    });
+    sendJson(res, 200, { images });
+  },
+
+  'POST /api/image-edit': async (req, res) => {
+    const body = await readJsonBody(req, BODY_LIMITS.imageEdit);
+    const image = requireString(body.image, 'image');
+    const prompt = requireString(body.prompt, 'prompt', 2000);
+    const mask = body.mask === undefined || body.mask === null ? undefined : requireString(body.mask, 'mask');
+    sendJson(res, 200, { image: await gemini.editImage(resolveModel('image', body.model), image, prompt, mask) });
+  },
+
+  'POST /api/veo/start': async (req, res) => {
+    const body = await readJsonBody(req, BODY_LIMITS.veoStart);
+    const prompt = typeof body.prompt === 'string' ? body.prompt.slice(0, 2000) : '';
+    const image = body.image === undefined || body.image === null ? undefined : {
+      data: requireString(body.image, 'image'),
+      mimeType: requireOneOf(body.mimeType, 'mimeType', VIDEO_OPTIONS.imageMimeTypes, 'image/png'),
+    };
+    // Text-to-video needs something to go on
+    if (!image && !prompt.trim()) throw new HttpError(400, '"prompt" is required without an image');
+
+    const numberOfVideos = body.numberOfVideos === undefined ? 1 : Number(body.numberOfVideos);
+    if (!Number.isInteger(numberOfVideos) || numberOfVideos < 1 || numberOfVideos > VIDEO_OPTIONS.maxTakes) {
+      throw new HttpError(400, `"numberOfVideos" must be between 1 and ${VIDEO_OPTIONS.maxTakes}`);
+    }
+
+    const operation = await gemini.startVideo(resolveModel('video', body.model), {
+      prompt,
+      image,
+      negativePrompt: typeof body.negativePrompt === 'string' ? body.negativePrompt.slice(0, 1000) : undefined,
+      aspectRatio: requireOneOf(body.aspectRatio, 'aspectRatio', VIDEO_OPTIONS.aspectRatios, '16:9'),
+      resolution: requireOneOf(body.resolution, 'resolution', VIDEO_OPTIONS.resolutions, '720p'),
+      numberOfVideos,
+    });
+    sendJson(res, 200, { operation });
+  },
+
+  'POST /api/veo/poll': async (req, res) => {
+    const body = await readJsonBody(req, BODY_LIMITS.veoPoll);
+    sendJson(res, 200, await gemini.pollVideo(requireString(body.operation, 'operation', 500)));
+  },
+
+  'GET /api/veo/download': async (_req, res, url) => {
+    const operation = requireString(url.searchParams.get('operation'), 'operation', 500);
+    const index = Number(url.searchParams.get('index') || 0);
+    if (!Number.isInteger(index) || index < 0) throw new HttpError(400, '"index" must be a non-negative integer');
+
+    const video = await gemini.downloadVideo(operation, index);
+    if (!video.body) throw new HttpError(502, 'Video download returned no data');
+    res.writeHead(200, {
+      'Content-Type': video.headers.get('content-type') || 'video/mp4',
+      ...(video.headers.get('content-length') ? { 'Content-Length': video.headers.get('content-length')! } : {}),
+    });
+    // An upstream abort rejects here and ends the response instead of the process
+    await pipeline(Readable.fromWeb(video.body as ReadableStream<Uint8Array>), res);
+  },
+};
+
+// --- Static Frontend ---
+
+const DIST_DIR = path.resolve(path.dirname(fileURLToPath(import.meta.url)), '../dist');
+
+const CONTENT_TYPES: Record<string, string> = {
+  '.html': 'text/html; charset=utf-8',
+  '.js': 'text/javascript; charset=utf-8',
+  '.css': 'text/css; charset=utf-8',
+  '.json': 'application/json; charset=utf-8',
+  '.svg': 'image/svg+xml',
+  '.png': 'image/png',
+  '.ico': 'image/x-icon',
+};
+
+const decodePath = (pathname: string) => {
+  try {
+    return decodeURIComponent(pathname);
+  } catch {
+    throw new HttpError(400, 'Malformed URL');
+  }
+};
+
+const serveStatic = async (res: ServerResponse, url: URL) => {
+  const requested = path.normalize(decodePath(url.pathname)).replace(/^([/\\])+/, '');
+  let file = path.join(DIST_DIR, requested);
+  if (!file.startsWith(DIST_DIR + path.sep) || !existsSync(file) || statSync(file).isDirectory()) {
+    file = path.join(DIST_DIR, 'index.html');
+  }
+  if (!existsSync(file)) {
+    sendJson(res, 404, { error: 'Not found (run `npm run build` to serve the frontend from here)' });
+    return;
+  }
+  res.writeHead(200, { 'Content-Type': CONTENT_TYPES[path.extname(file)] || 'application/octet-stream' });
+  await pipeline(createReadStream(file), res);
+};
+
+// --- Server ---
+
+// Parsed against a fixed base: the Host header is the client's to choose
+const parseRequestUrl = (req: IncomingMessage) => {
+  try {
+    return new URL(req.url || '/', 'http://localhost');
+  } catch {
+    throw new HttpError(400, 'Malformed URL');
+  }
+};
+
+const server = createServer(async (req, res) => {
+  try {
+    const url = parseRequestUrl(req);
+    const handler = routes[`${req.method} ${url.pathname}`];
+
+    if (!handler) {
+      if (url.pathname.startsWith('/api/')) {
+        sendJson(res, 404, { error: 'Unknown API route' });
+      } else {
+        await serveStatic(res, url);
+      }
+      return;
+    }
+
+    await handler(req, res, url);
+  } catch (e) {
+    if (e instanceof HttpError) {
+      sendJson(res, e.status, { error: e.message, ...e.details });
+    } else if (e instanceof StructuredOutputError) {
+      sendJson(res, 502, { error: e.message, code: 'STRUCTURED_OUTPUT', issues: e.issues, attempts: e.attempts });
+    } else {
+      console.error(`${req.method} ${req.url} failed`, e);
+      if (!res.headersSent) sendJson(res, 502, { error: (e as Error).message || 'Upstream AI call failed' });
+      else res.destroy();
+    }
+  }
+});
+
+const handleLiveUpgrade = createLiveRelay();
+
+server.on('upgrade', (req, socket, head) => {
+  let pathname: string;
+  try {
+    pathname = parseRequestUrl(req).pathname;
+  } catch {
+    socket.destroy();
+    return;
+  }
+  if (pathname === '/api/live') {
+    handleLiveUpgrade(req, socket, head);
+  } else {
+    socket.destroy();
+  }
+});
+
+server.listen(PORT, () => {
+  console.log(`Senhor Gótico API listening on http://localhost:${PORT}`);
+});
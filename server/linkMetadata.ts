@@ -0,0 +1,179 @@
+import { parseMusicLink } from '../services/linkResolver';
+import { MusicPlatform, SourceLink } from '../types';
+
+// --- Link Metadata ---
+// Fills in artist, release and cover for a music link. Platforms with oEmbed
+// are asked for it; Bandcamp and Apple Music pages are read for their Open
+// Graph tags. Only links the parser accepted are fetched, and redirects are
+// followed by hand only while they stay on a link the parser accepts (an artist's
+// custom Bandcamp domain is not followed). Bodies are read up to a fixed size.
+// Everything here is best effort: a platform that is down or changes its markup
+// leaves the link as the parser made it.
+
+const FETCH_TIMEOUT_MS = 5000;
+const MAX_REDIRECTS = 3;
+// Enough for the <head> of any platform page the tags come from
+const MAX_BODY_BYTES = 512 * 1024;
+
+const OEMBED_ENDPOINTS: Partial<Record<MusicPlatform, string>> = {
+  'youtube': 'https://www.youtube.com/oembed?format=json&url=',
+  'spotify': 'https://open.spotify.com/oembed?url=',
+  'soundcloud': 'https://soundcloud.com/oembed?format=json&url=',
+};
+
+interface OEmbed {
+  title?: string;
+  author_name?: string;
+  thumbnail_url?: string;
+}
+
+const fetchWithTimeout = (url: string) =>
+  fetch(url, {
+    signal: AbortSignal.timeout(FETCH_TIMEOUT_MS),
+    headers: { 'User-Agent': 'Mozilla/5.0 (compatible; SenhorGotico/1.0)' },
+    redirect: 'manual',
+  });
+
+const isRedirect = (response: Response) => response.status >= 300 && response.status < 400;
+
+// Where a redirect points, when that is still a link on the same platform
+const redirectTarget = (response: Response, from: SourceLink): SourceLink | null => {
+  const location = response.headers.get('location');
+  if (!location) return null;
+  const target = parseMusicLink(new URL(location, from.url).href);
+  return target?.platform === from.platform ? target : null;
+};
+
+// Fetches a platform page, following only redirects that stay on the platform
+const fetchPlatformPage = async (link: SourceLink): Promise<Response | null> => {
+  let url = link.url;
+  for (let hop = 0; hop <= MAX_REDIRECTS; hop++) {
+    const response = await fetchWithTimeout(url);
+    if (!isRedirect(response)) return response;
+    await response.body?.cancel();
+    const target = redirectTarget(response, link);
+    if (!target) return null;
+    url = target.url;
+  }
+  return null;
+};
+
+// Reads the body as text, stopping after MAX_BODY_BYTES
+const readCapped = async (response: Response): Promise<string> => {
+  if (!response.body) return '';
+  const reader = response.body.getReader();
+  const decoder = new TextDecoder();
+  let text = '';
+  let size = 0;
+  while (size < MAX_BODY_BYTES) {
+    const { done, value } = await reader.read();
+    if (done) return text + decoder.decode();
+    const chunk = value.subarray(0, MAX_BODY_BYTES - size);
+    size += chunk.length;
+    text += decoder.decode(chunk, { stream: true });
+  }
+  await reader.cancel();
+  return text + decoder.decode();
+};
+
+const metaContent = (html: string, key: string): string | undefined => {
+  const tag = html.match(new RegExp(`<meta[^>]+(?:property|name)=["']${key}["'][^>]*>`, 'i'))?.[0];
+  const content = tag?.match(/content=(["'])(.*?)\1/i)?.[2];
+  return content ? decodeEntities(content).trim() : undefined;
+};
+
+const decodeEntities = (value: string) =>
+  value
+    .replace(/&#(\d+);/g, (_, code) => String.fromCodePoint(Number(code)))
+    .replace(/&#x([\da-f]+);/gi, (_, code) => String.fromCodePoint(parseInt(code, 16)))
+    .replace(/&quot;/g, '"')
+    .replace(/&#39;|&apos;/g, "'")
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/&amp;/g, '&');
+
+// "Release, by Artist" (Bandcamp), "Release - Album by Artist - Apple Music",
+// "Release by Artist" (SoundCloud oEmbed)
+const splitByArtist = (title: string): { release: string, artist?: string } => {
+  // Apple prefixes its titles with a left-to-right mark
+  const cleaned = title.replace(/^\u200e/, '').replace(/\s+(?:on|-)\s+Apple Music$/i, '').trim();
+  const at = cleaned.lastIndexOf(' by ');
+  if (at <= 0) return { release: cleaned };
+  return {
+    release: cleaned.slice(0, at).replace(/,$/, '').replace(/\s+-\s+(?:Album|Single|EP|Song)$/i, '').trim(),
+    artist: cleaned.slice(at + 4).trim(),
+  };
+};
+
+const fromOEmbed = async (link: SourceLink, endpoint: string): Promise<SourceLink> => {
+  const response = await fetchWithTimeout(`${endpoint}${encodeURIComponent(link.url)}`);
+  if (!response.ok) {
+    await response.body?.cancel();
+    return link;
+  }
+  const data = JSON.parse(await readCapped(response)) as OEmbed;
+  const title = data.title?.trim();
+  // SoundCloud puts the artist in the title as well; YouTube's author is the channel
+  const split = title && link.platform === 'soundcloud' ? splitByArtist(title) : null;
+  return {
+    ...link,
+    release: split?.release || title || undefined,
+    artist: data.author_name?.trim() || split?.artist,
+    coverUrl: data.thumbnail_url || link.coverUrl,
+  };
+};
+
+// Bandcamp's player takes the numeric album or track id from the page properties
+const bandcampEmbed = (html: string): string | undefined => {
+  const properties = metaContent(html, 'bc-page-properties');
+  if (!properties) return undefined;
+  try {
+    const { item_type, item_id } = JSON.parse(properties);
+    if (!item_id) return undefined;
+    const kind = item_type === 't' ? 'track' : 'album';
+    return `https://bandcamp.com/EmbeddedPlayer/${kind}=${item_id}/size=large/bgcol=121212/linkcol=ccff00/tracklist=${kind === 'album'}/artwork=small/transparent=true/`;
+  } catch {
+    return undefined;
+  }
+};
+
+const fromPage = async (link: SourceLink): Promise<SourceLink> => {
+  const response = await fetchPlatformPage(link);
+  if (!response?.ok) {
+    await response?.body?.cancel();
+    return link;
+  }
+  const html = await readCapped(response);
+  const title = metaContent(html, 'og:title');
+  const split = title ? splitByArtist(title) : null;
+  return {
+    ...link,
+    release: split?.release || link.release,
+    artist: split?.artist || link.artist,
+    coverUrl: metaContent(html, 'og:image') || link.coverUrl,
+    embedUrl: link.platform === 'bandcamp' ? bandcampEmbed(html) || link.embedUrl : link.embedUrl,
+  };
+};
+
+// Short SoundCloud links only become a track URL through their redirect; only
+// the Location header is read, the target itself is never fetched
+const followShortLink = async (link: SourceLink): Promise<SourceLink> => {
+  if (link.platform !== 'soundcloud' || link.embedUrl) return link;
+  const response = await fetchWithTimeout(link.url);
+  await response.body?.cancel();
+  return (isRedirect(response) && redirectTarget(response, link)) || link;
+};
+
+// null when the link is not on a supported platform
+export const resolveLink = async (input: string): Promise<SourceLink | null> => {
+  const parsed = parseMusicLink(input);
+  if (!parsed) return null;
+  try {
+    const link = await followShortLink(parsed);
+    const endpoint = OEMBED_ENDPOINTS[link.platform];
+    return endpoint ? await fromOEmbed(link, endpoint) : await fromPage(link);
+  } catch (e) {
+    console.warn(`Could not read metadata for ${parsed.url}`, e);
+    return parsed;
+  }
+};
@@ -0,0 +1,170 @@
+import { LiveConnectConfig, Modality, Session } from '@google/genai';
+import { IncomingMessage } from 'node:http';
+import { Duplex } from 'node:stream';
+import { WebSocket, WebSocketServer } from 'ws';
+import { LIVE_MAX_MESSAGE } from './config';
+import { getClient } from './gemini';
+import { resolveModel } from './http';
+
+// --- Live API WebSocket Relay ---
+// The browser opens ws(s)://<host>/api/live and speaks a small JSON protocol;
+// the server holds the real Gemini Live session with its own key.
+//
+// Browser -> server:
+//   { type: 'setup', model?, config? }            first message, opens the session
+//   { type: 'realtimeInput', input }              audio/video chunks, activity markers
+//   { type: 'clientContent', turns, turnComplete }
+//   { type: 'toolResponse', functionResponses }
+// Server -> browser:
+//   { type: 'open' } | { type: 'message', message } | { type: 'error', message }
+//   { type: 'closed', code, reason }              the upstream session ended
+
+// Session settings the browser may choose. Modalities and transcription are fixed here.
+const CLIENT_CONFIG_KEYS = [
+  'systemInstruction',
+  'speechConfig',
+  'tools',
+  'sessionResumption',
+  'realtimeInputConfig',
+  'contextWindowCompression',
+] as const;
+
+const pickClientConfig = (raw: unknown): LiveConnectConfig => {
+  const config: Record<string, unknown> = {};
+  if (raw && typeof raw === 'object') {
+    for (const key of CLIENT_CONFIG_KEYS) {
+      if (key in raw) config[key] = (raw as Record<string, unknown>)[key];
+    }
+  }
+  return {
+    ...config,
+    responseModalities: [Modality.AUDIO],
+    inputAudioTranscription: {},
+    outputAudioTranscription: {},
+  };
+};
+
+const send = (socket: WebSocket, payload: unknown) => {
+  if (socket.readyState === WebSocket.OPEN) socket.send(JSON.stringify(payload));
+};
+
+type ClientFrame = Record<string, unknown> & { type: string };
+
+// Any JSON value parses, so "null" or "[]" must not reach the protocol switch
+const parseFrame = (raw: string): ClientFrame | null => {
+  let data: unknown;
+  try {
+    data = JSON.parse(raw);
+  } catch {
+    return null;
+  }
+  if (!data || typeof data !== 'object' || Array.isArray(data)) return null;
+  return typeof (data as Record<string, unknown>).type === 'string' ? data as ClientFrame : null;
+};
+
+const handleConnection = (socket: WebSocket) => {
+  let session: Session | null = null;
+  // Set while live.connect is pending, so a second setup cannot open a second session
+  let connecting = false;
+  let closed = false;
+
+  const closeSession = () => {
+    if (session) {
+      session.close();
+      session = null;
+    }
+  };
+
+  socket.on('message', async (raw) => {
+    const data = parseFrame(raw.toString());
+    if (!data) {
+      send(socket, { type: 'error', message: 'Frames must be JSON objects with a string "type"' });
+      return;
+    }
+
+    if (data.type === 'setup') {
+      if (session || connecting) {
+        send(socket, { type: 'error', message: 'Session already set up' });
+        return;
+      }
+      connecting = true;
+      try {
+        const model = resolveModel('live', data.model);
+        session = await getClient().live.connect({
+          model,
+          config: pickClientConfig(data.config),
+          callbacks: {
+            onopen: () => send(socket, { type: 'open' }),
+            onmessage: (message) => send(socket, { type: 'message', message }),
+            onerror: (e) => send(socket, { type: 'error', message: e.message || 'Live session error' }),
+            onclose: (e) => {
+              session = null;
+              // Close codes like 1006 cannot be sent on, so the real one travels as a message
+              send(socket, { type: 'closed', code: e.code, reason: e.reason || '' });
+              if (socket.readyState === WebSocket.OPEN) socket.close(1000, (e.reason || '').slice(0, 120));
+            },
+          },
+        });
+        // The browser left while we were still connecting
+        if (closed) closeSession();
+      } catch (e) {
+        send(socket, { type: 'error', message: (e as Error).message });
+        socket.close(1011, 'Setup failed');
+      } finally {
+        connecting = false;
+      }
+      return;
+    }
+
+    if (!session) {
+      send(socket, { type: 'error', message: 'Send a setup message first' });
+      return;
+    }
+
+    // The SDK throws on malformed input; that is the browser's error, not the server's
+    try {
+      switch (data.type) {
+        case 'realtimeInput':
+          session.sendRealtimeInput((data.input || {}) as Parameters<Session['sendRealtimeInput']>[0]);
+          break;
+        case 'clientContent':
+          session.sendClientContent({
+            turns: data.turns as Parameters<Session['sendClientContent']>[0]['turns'],
+            turnComplete: data.turnComplete as boolean | undefined,
+          });
+          break;
+        case 'toolResponse':
+          session.sendToolResponse({
+            functionResponses: data.functionResponses as Parameters<Session['sendToolResponse']>[0]['functionResponses'],
+          });
+          break;
+        default:
+          send(socket, { type: 'error', message: `Unknown message type "${data.type}"` });
+      }
+    } catch (e) {
+      send(socket, { type: 'error', message: (e as Error).message || `Could not forward "${data.type}"` });
+    }
+  });
+
+  socket.on('close', () => {
+    closed = true;
+    closeSession();
+  });
+
+  // Protocol errors (oversized frames, bad opcodes) end this connection, not the server
+  socket.on('error', (e) => {
+    console.warn('Live relay socket error', e.message);
+    closed = true;
+    closeSession();
+    socket.terminate();
+  });
+};
+
+export const createLiveRelay = () => {
+  const wss = new WebSocketServer({ noServer: true, maxPayload: LIVE_MAX_MESSAGE });
+  wss.on('connection', handleConnection);
+
+  return (req: IncomingMessage, socket: Duplex, head: Buffer) => {
+    wss.handleUpgrade(req, socket, head, ws => wss.emit('connection', ws, req));
+  };
+};
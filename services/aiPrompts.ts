@@ -0,0 +1,240 @@
+import { CriticPersona, CriticStrictness, Genre, GENRES, SourceLink } from '../types';
+import { Infer, noMarkdown, s } from './structuredOutput';
+
+// --- Shared Prompts & Response Specs ---
+// Provider-independent task definitions, so every AIProvider asks for the same
+// thing and validates replies against the same spec.
+
+export const POST_DRAFT_SPEC = s.object({
+  title: s.string({
+    description: 'Punchy, engaging, SEO-optimized blog post title. Plain text.',
+    minLength: 3,
+    maxLength: 120,
+    check: noMarkdown,
+  }),
+  metaDescription: s.string({
+    description: 'Concise SEO meta description. Plain text, max 160 characters.',
+    minLength: 20,
+    maxLength: 160,
+    check: noMarkdown,
+  }),
+  content: s.string({
+    description: 'Short, high-energy Markdown summary (max 150 words).',
+    minLength: 40,
+  }),
+});
+
+// A draft written from watching the video itself
+export const VIDEO_DRAFT_SPEC = s.object({
+  title: s.string({
+    description: 'Punchy, engaging, SEO-optimized blog post title. Plain text.',
+    minLength: 3,
+    maxLength: 120,
+    check: noMarkdown,
+  }),
+  metaDescription: s.string({
+    description: 'Concise SEO meta description. Plain text, max 160 characters.',
+    minLength: 20,
+    maxLength: 160,
+    check: noMarkdown,
+  }),
+  content: s.string({
+    description: 'Short, high-energy Markdown summary (max 150 words).',
+    minLength: 40,
+  }),
+  highlights: s.array(s.object({
+    time: s.string({
+      description: 'Timestamp in the video as m:ss or h:mm:ss.',
+      check: value => /^(\d+:)?\d{1,2}:\d{2}$/.test(value) ? null : 'must look like 2:14 or 1:02:14',
+    }),
+    note: s.string({
+      description: 'What happens at that moment, in a few words. Plain text.',
+      minLength: 3,
+      maxLength: 120,
+      check: noMarkdown,
+    }),
+  }), { description: 'Notable moments, in order.', minItems: 1, maxItems: 6 }),
+});
+
+// A draft written from listening to the track itself
+export const AUDIO_CRITIQUE_SPEC = s.object({
+  title: s.string({
+    description: 'Punchy, engaging, SEO-optimized blog post title. Plain text.',
+    minLength: 3,
+    maxLength: 120,
+    check: noMarkdown,
+  }),
+  metaDescription: s.string({
+    description: 'Concise SEO meta description. Plain text, max 160 characters.',
+    minLength: 20,
+    maxLength: 160,
+    check: noMarkdown,
+  }),
+  content: s.string({
+    description: 'Markdown critique covering production, tempo, mood and genre fit (max 250 words).',
+    minLength: 80,
+  }),
+  genre: s.enumOf(GENRES, 'The blog genre the track fits best.'),
+});
+
+export const SEO_SPEC = s.object({
+  title: s.string({
+    description: 'Refined, engaging, SEO-friendly title. Plain text.',
+    minLength: 3,
+    maxLength: 120,
+    check: noMarkdown,
+  }),
+  metaDescription: s.string({
+    description: 'Compelling meta description summarizing the content. Plain text, max 160 characters.',
+    minLength: 20,
+    maxLength: 160,
+    check: noMarkdown,
+  }),
+});
+
+export const COVER_PROMPT_SPEC = s.object({
+  prompt: s.string({
+    description: 'Visual description of the cover art for an image model: subject, setting, lighting, colours, composition. No text or lettering in the image.',
+    minLength: 20,
+    maxLength: 1000,
+  }),
+});
+
+export type PostDraftResult = Infer<typeof POST_DRAFT_SPEC>;
+export type VideoDraftResult = Infer<typeof VIDEO_DRAFT_SPEC>;
+export type VideoHighlight = VideoDraftResult['highlights'][number];
+export type AudioCritiqueResult = Infer<typeof AUDIO_CRITIQUE_SPEC>;
+export type SeoResult = Infer<typeof SEO_SPEC>;
+export type CoverPromptResult = Infer<typeof COVER_PROMPT_SPEC>;
+
+// Visual vocabulary appended to cover prompts, one preset per genre
+export const COVER_STYLES: Record<Genre, string> = {
+  'Goth': 'gothic romanticism, candlelit cathedral ruins, velvet and lace, deep crimson and black, chiaroscuro',
+  'Industrial': 'rusted machinery, concrete and steel, harsh sodium light, grainy photocopy texture, monochrome with rust orange',
+  'Darkwave': 'cold moonlit landscape, fog, lone silhouette, muted teal and violet, 1980s film grain',
+  'Post-Punk': 'stark black and white photography, high contrast, brutalist architecture, xerox zine aesthetic',
+  'EBM': 'militant constructivist poster, bold geometric shapes, red and black, strobe-lit dancefloor, sweat and leather',
+  'Synthpop': 'neon grid horizon, chrome and pastel gradients, retro-futurist 1980s album sleeve, soft glow',
+  'Metal': 'dark fantasy oil painting, storm clouds, jagged mountains, fire and iron, epic scale',
+  'Other': 'moody alternative album cover, cinematic lighting, dark atmosphere',
+};
+
+export const buildResearchPrompt = (url: string, link: SourceLink | null) => `Research this music link: ${url}.${platformFacts(link)}
+Identify the artist, the track or release, year, label, genre and any notable context (scene, influences, reception).
+Report only facts you found, as short notes. Say so explicitly if something could not be verified.`;
+
+// What the platform itself says about the link, from services/linkResolver.ts
+const platformFacts = (link: SourceLink | null) => {
+  const facts = [
+    link?.release && `title "${link.release}"`,
+    link?.artist && `artist or uploader "${link.artist}"`,
+  ].filter(Boolean);
+  return link && facts.length ? `\nThe ${link.platform} page lists ${facts.join(' and ')}.` : '';
+};
+
+// Sent after the video itself
+export const buildVideoDraftPrompt = (url: string, link: SourceLink | null) => `You write for the dark alternative music blog 'Senhor Gótico'.
+Watch and listen to the attached YouTube video (${url}) and write a blog post draft about what is actually in it:${platformFacts(link)}
+1. A punchy, engaging, SEO-optimized title (plain text, no Markdown).
+2. A concise SEO meta description (plain text, max 160 characters).
+3. A short, high-energy summary (max 150 words) explaining why this music is essential for the blog.
+   Write it in Markdown: **bold** for artist and release names, a "## " subheading if it helps,
+   and a "> " blockquote for a memorable lyric you hear.
+4. Up to six highlights with timestamps, such as the drop, a vocal entry or a striking shot in the video.
+Name the artist and title only as shown or sung in the video. Do not invent facts you cannot see or hear.`;
+
+export const buildDraftPrompt = (url: string, notes: string) => `You write for the dark alternative music blog 'Senhor Gótico'.
+Using the research notes below about ${url}, write a blog post draft:
+1. A punchy, engaging, SEO-optimized title (plain text, no Markdown).
+2. A concise SEO meta description (plain text, max 160 characters).
+3. A short, high-energy summary (max 150 words) explaining why this music is essential for the blog.
+   Write it in Markdown: **bold** for artist and release names, a "## " subheading if it helps,
+   a "> " blockquote for a memorable lyric or quote, and [links](https://...) to official pages when known.
+Do not invent facts that are not in the notes.
+
+RESEARCH NOTES:
+${notes || 'No notes available; write only what can be inferred from the link itself.'}`;
+
+export const buildTranscriptDraftPrompt = (transcript: string) => `You write for the dark alternative music blog 'Senhor Gótico'.
+Below is the transcript of a spoken debate between the author ("You") and the blog's resident critic ("Critic").
+Turn the strongest arguments and best lines into a blog post draft:
+1. A punchy, engaging, SEO-optimized title (plain text, no Markdown).
+2. A concise SEO meta description (plain text, max 160 characters).
+3. A short, high-energy post (max 150 words) in Markdown: **bold** for artist and release names,
+   a "> " blockquote for the sharpest line from the debate, and a "## " subheading if it helps.
+Write it as an opinionated piece, not as a report of a conversation. Use only what was said.
+
+TRANSCRIPT:
+${transcript}`;
+
+// Sent after the audio clip itself
+export const buildAudioCritiquePrompt = (name: string, seconds: number, sourceSeconds: number) => `You write for the dark alternative music blog 'Senhor Gótico'.
+Listen to the attached audio: ${sourceSeconds > seconds ? `the first ${Math.round(seconds)} seconds of a` : 'a'} ${Math.round(sourceSeconds)} second track submitted as "${name}".
+Write a blog post draft grounded in what you hear:
+1. A punchy, engaging, SEO-optimized title (plain text, no Markdown).
+2. A concise SEO meta description (plain text, max 160 characters).
+3. A critique (max 250 words) in Markdown with "## " subheadings for Production, Tempo, Mood and Genre fit.
+   Production: mix, instruments, vocals, recording quality. Tempo: an estimated BPM and how the rhythm moves.
+   Mood: what the track makes you feel. Genre fit: where it sits among ${GENRES.filter(g => g !== 'Other').join(', ')}.
+4. The genre it fits best.
+The file name may hint at the artist or title; do not claim facts about the band you cannot hear.`;
+
+export const buildSeoPrompt = (currentTitle: string, currentContent: string) => `You are an SEO expert for a music blog. Analyze the following draft post:
+
+TITLE: ${currentTitle}
+CONTENT: ${currentContent}
+
+Task:
+1. Refine the title to be more engaging and SEO-friendly while keeping the original intent.
+2. Write a compelling meta description (max 160 chars) summarizing the content.`;
+
+export const buildCoverPrompt = (title: string, genre: Genre, content: string) => `You art-direct covers for the dark alternative music blog 'Senhor Gótico'.
+Describe a striking cover image for this post, to be rendered by an image model.
+Capture the mood and imagery of the music rather than illustrating the review literally.
+Do not ask for any text, letters, logos or band names in the image.
+
+TITLE: ${title}
+GENRE: ${genre}
+CONTENT: ${content.slice(0, 4000)}`;
+
+// Combines the visual description with a style preset for the image model
+export const buildCoverImagePrompt = (prompt: string, genre: Genre) =>
+  `${prompt.trim()}\nStyle: ${COVER_STYLES[genre]}. Album cover art, no text, no lettering.`;
+
+// Sent with two images: the picture, then a black and white mask of the same size
+export const buildMaskedEditPrompt = (prompt: string) => `Edit the first image: ${prompt}
+The second image is a mask of the same size. Change only the area that is white in the mask and keep everything in the black area exactly as it is.
+Return the full edited image at the original size, without the mask.`;
+
+export const CRITIC_SYSTEM_INSTRUCTION = "You are an opinionated music critic for the blog 'Senhor Gótico'. Engage in real-time debates about music, offer sharp critiques on user taste, and discuss dark alternative genres. Be witty, mysterious, and concise.";
+
+const CRITIC_TOOL_GUIDANCE = `You can look things up in the blog and work on the author's entry with your functions.
+- When the author asks what the blog said about an artist, album or topic, call search_posts, then read_post for the details. Quote what was written; never guess.
+- Only change the entry (set_genre, append_paragraph) when the author asks you to. suggest_tags just offers tags.
+- Say briefly what you did after calling a function.`;
+
+const STRICTNESS_GUIDANCE: Record<CriticStrictness, string> = {
+  gentle: 'Be encouraging: point out what works before what does not, and never mock the author.',
+  fair: 'Be honest and balanced: praise what earns it and call out what does not.',
+  ruthless: 'Be merciless: no flattery, challenge every claim and defend your verdicts hard.',
+};
+
+// Native audio models pick their language from the conversation, so it is
+// pinned in the instructions rather than in the speech config
+const languageGuidance = (language: string) => {
+  const name = new Intl.DisplayNames(['en'], { type: 'language' }).of(language) || language;
+  return `RESPOND IN ${name.toUpperCase()}. YOU MUST RESPOND UNMISTAKABLY IN ${name.toUpperCase()}, even if the author switches language.`;
+};
+
+// The session's context is fixed when it opens; functions fetch anything newer
+export const buildCriticInstruction = (
+  persona: Pick<CriticPersona, 'instruction' | 'language' | 'strictness'>,
+  context?: string,
+  hasTools = false,
+) => [
+  persona.instruction.trim() || CRITIC_SYSTEM_INSTRUCTION,
+  STRICTNESS_GUIDANCE[persona.strictness],
+  languageGuidance(persona.language),
+  hasTools ? CRITIC_TOOL_GUIDANCE : '',
+  context || '',
+].filter(Boolean).join('\n\n');
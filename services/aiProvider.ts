@@ -0,0 +1,230 @@
+import { Blob as MediaBlob, Schema } from '@google/genai';
+import { AnalysisMode, CriticPersona, Genre, ImageAspectRatio, SourceLink, TranscriptSpeaker, VideoSettings } from '../types';
+import { AudioCritiqueResult, PostDraftResult, SeoResult, VideoHighlight } from './aiPrompts';
+import { geminiProvider } from './geminiService';
+import { createLocalProvider } from './localProvider';
+import { mockProvider } from './mockProvider';
+
+// --- AI Provider Layer ---
+// Components talk to `getAIProvider()` instead of a concrete SDK. The active
+// provider is chosen with the AI_PROVIDER setting (see vite.config.ts):
+//   gemini (default) - Google Gemini for every capability
+//   mock             - deterministic fixtures, no network; for offline work and tests
+//   local            - OpenAI-compatible HTTP server (e.g. Ollama) for text tasks only
+
+export type AICapability = 'text' | 'audio' | 'imageGenerate' | 'imageEdit' | 'video' | 'live';
+
+export interface GroundingSource {
+  uri: string;
+  title: string;
+}
+
+export type LinkAnalysis = PostDraftResult & {
+  sources: GroundingSource[];
+  mode: AnalysisMode;
+  // Timestamped moments; only when the video itself was watched
+  highlights: VideoHighlight[];
+  // The link as resolved on its platform; null for unsupported sites
+  link: SourceLink | null;
+};
+
+export interface InlineImage {
+  data: string; // raw base64 (no data: prefix)
+  mimeType: string;
+}
+
+// A mono 16-bit WAV made by prepareAudioClip
+export interface AudioClip {
+  data: string; // raw base64 (no data: prefix)
+  name: string;
+  // Seconds in the clip, and in the file it was cut from
+  duration: number;
+  sourceDuration: number;
+}
+
+export interface CoverDraft {
+  title: string;
+  genre: Genre;
+  content: string;
+}
+
+export interface ImageRequest {
+  prompt: string;
+  style: Genre; // style preset from COVER_STYLES, independent of the post's genre
+  aspectRatio: ImageAspectRatio;
+  count: number;
+}
+
+export const MAX_IMAGE_CANDIDATES = 4;
+
+export const DEFAULT_VIDEO_SETTINGS: VideoSettings = {
+  aspectRatio: '16:9',
+  resolution: '720p',
+  negativePrompt: '',
+  takes: 1,
+  quality: 'fast',
+};
+
+export const MAX_VIDEO_TAKES = 4;
+
+export interface VideoRequest {
+  prompt: string;
+  image?: InlineImage; // omitted for text-to-video
+  settings: VideoSettings;
+}
+
+export interface VideoOperationStatus {
+  done: boolean;
+  videoCount: number;
+  error?: string;
+}
+
+export interface LiveCallbacks {
+  onOpen: () => void;
+  onAudio: (audio: MediaBlob) => void;
+  // Transcription arrives in chunks for both sides; append them in order
+  onTranscript: (speaker: TranscriptSpeaker, text: string) => void;
+  // The critic finished speaking
+  onTurnComplete: () => void;
+  // The user talked over the critic; audio already received for that turn is stale
+  onInterrupted: () => void;
+  // The critic wants functions run; answer every call with sendToolResponses
+  onToolCall: (calls: LiveToolCall[]) => void;
+  // Session state the server lets us resume from after the connection drops
+  onResumptionHandle?: (handle: string) => void;
+  // The server will end this connection in `timeLeft` seconds
+  onGoAway?: (timeLeft: number) => void;
+  // Not necessarily fatal; whether the session survives shows in onClose
+  onError: (error: unknown) => void;
+  onClose: (info?: LiveCloseInfo) => void;
+}
+
+export interface LiveCloseInfo {
+  code?: number; // WebSocket close code
+  reason?: string;
+}
+
+export interface LiveOptions {
+  // Turn-taking is marked by the user instead of voice activity detection;
+  // bracket each utterance with startActivity/endActivity
+  pushToTalk?: boolean;
+  // Who the critic is; the provider's default persona when omitted
+  persona?: CriticPersona;
+  // Background for the critic (the open draft, recent posts), added to its instructions
+  context?: string;
+  tools?: LiveToolDeclaration[];
+  // Continues an earlier session from its last resumption handle
+  resumeHandle?: string;
+}
+
+// A function the critic may call; parameters use the structured output schema
+export interface LiveToolDeclaration {
+  name: string;
+  description: string;
+  parameters: Schema;
+}
+
+export interface LiveToolCall {
+  id: string;
+  name: string;
+  args: Record<string, unknown>;
+}
+
+export interface LiveToolResponse {
+  id: string;
+  name: string;
+  response: Record<string, unknown>;
+}
+
+export interface LiveSession {
+  sendAudio: (audio: MediaBlob) => void;
+  // One JPEG frame of the video the critic is shown
+  sendVideo: (frame: MediaBlob) => void;
+  startActivity: () => void;
+  endActivity: () => void;
+  sendToolResponses: (responses: LiveToolResponse[]) => void;
+  close: () => void;
+}
+
+export interface AIProvider {
+  name: string;
+  capabilities: ReadonlySet<AICapability>;
+  analyzeLink: (url: string) => Promise<LinkAnalysis>;
+  optimizePostMetadata: (title: string, content: string) => Promise<SeoResult>;
+  // Turns a live debate transcript (plain text, one turn per line) into a post draft
+  draftFromTranscript: (transcript: string) => Promise<PostDraftResult>;
+  // Listens to a track and writes a draft critiquing it
+  critiqueAudio: (clip: AudioClip) => Promise<AudioCritiqueResult>;
+  // Writes a visual description of cover art from the post; a text task
+  writeCoverPrompt: (draft: CoverDraft) => Promise<string>;
+  // Candidate covers; fewer than requested may come back if some are filtered
+  generateImages: (request: ImageRequest) => Promise<InlineImage[]>;
+  // Takes and returns raw base64 (no data: prefix). The optional mask is a black
+  // and white PNG of the same size; white marks the area the edit should touch.
+  editImage: (imageBase64: string, prompt: string, maskBase64?: string) => Promise<string>;
+  // Video generation is a long-running operation: start it, poll it by name
+  // (possibly after a reload), then fetch the finished file
+  startVideo: (request: VideoRequest) => Promise<string>;
+  pollVideo: (operation: string) => Promise<VideoOperationStatus>;
+  fetchVideo: (operation: string, index: number) => Promise<Blob>;
+  connectLive: (callbacks: LiveCallbacks, options?: LiveOptions) => Promise<LiveSession>;
+}
+
+export class UnsupportedCapabilityError extends Error {
+  constructor(provider: string, capability: AICapability) {
+    super(`The "${provider}" AI provider does not support ${capability}`);
+    this.name = 'UnsupportedCapabilityError';
+  }
+}
+
+export type LiveErrorKind = 'permission' | 'no-device' | 'network' | 'quota' | 'time-limit' | 'server';
+
+// Why a Live session could not start or had to end
+export class LiveSessionError extends Error {
+  constructor(
+    public readonly kind: LiveErrorKind,
+    message: string,
+    // Worth reconnecting after
+    public readonly retryable = false,
+  ) {
+    super(message);
+    this.name = 'LiveSessionError';
+  }
+}
+
+export type AIProviderName = 'gemini' | 'mock' | 'local';
+
+const configuredProvider = (): AIProviderName => {
+  const value = (process.env.AI_PROVIDER || 'gemini').toLowerCase();
+  if (value === 'gemini' || value === 'mock' || value === 'local') return value;
+  console.warn(`Unknown AI_PROVIDER "${value}", falling back to gemini`);
+  return 'gemini';
+};
+
+let provider: AIProvider | null = null;
+
+export const getAIProvider = (): AIProvider => {
+  if (!provider) {
+    provider = createProvider(configuredProvider());
+  }
+  return provider;
+};
+
+// Swaps the active provider at runtime (e.g. `setAIProvider(createProvider('mock'))` in tests)
+export const setAIProvider = (next: AIProvider) => {
+  provider = next;
+};
+
+export const createProvider = (name: AIProviderName): AIProvider => {
+  switch (name) {
+    case 'mock':
+      return mockProvider;
+    case 'local':
+      return createLocalProvider({
+        baseUrl: process.env.LOCAL_AI_URL || 'http://localhost:11434/v1',
+        model: process.env.LOCAL_AI_MODEL || 'llama3.1',
+      });
+    default:
+      return geminiProvider;
+  }
+};
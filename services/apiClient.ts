@@ -0,0 +1,31 @@
+import { StructuredOutputError } from './structuredOutput';
+
+// --- Backend API Client ---
+// All Gemini traffic goes through our own server (see server/), which holds the key.
+
+const throwApiError = (status: number, data: any): never => {
+  if (data?.code === 'STRUCTURED_OUTPUT') {
+    throw new StructuredOutputError(data.error, data.issues || [], '', data.attempts || 0);
+  }
+  throw new Error(data?.error || `Request failed (${status})`);
+};
+
+export const apiPost = async <T>(path: string, body: unknown): Promise<T> => {
+  const response = await fetch(`/api/${path}`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(body),
+  });
+  const data = await response.json().catch(() => null);
+  if (!response.ok) throwApiError(response.status, data);
+  return data as T;
+};
+
+export const apiGetBlob = async (path: string): Promise<Blob> => {
+  const response = await fetch(`/api/${path}`);
+  if (!response.ok) throwApiError(response.status, await response.json().catch(() => null));
+  return response.blob();
+};
+
+export const liveSocketUrl = () =>
+  `${window.location.protocol === 'https:' ? 'wss:' : 'ws:'}//${window.location.host}/api/live`;
@@ -56,24 +56,17 @@ function writeString(view: DataView, offset: number, string: string) {
   }
 }
 
-export function createPcmBlob(data: Float32Array): Blob {
-  const l = data.length;
-  const int16 = new Int16Array(l);
-  for (let i = 0; i < l; i++) {
-    int16[i] = data[i] * 32768;
-  }
-  
+// Wraps 16-bit PCM as a Live API media chunk
+export function encodePcm16(samples: Int16Array, sampleRate: number): Blob {
+  const bytes = new Uint8Array(samples.buffer, samples.byteOffset, samples.byteLength);
   let binary = '';
-  const bytes = new Uint8Array(int16.buffer);
-  const len = bytes.byteLength;
-  for (let i = 0; i < len; i++) {
+  for (let i = 0; i < bytes.length; i++) {
     binary += String.fromCharCode(bytes[i]);
   }
-  const base64 = btoa(binary);
 
   return {
-    data: base64,
-    mimeType: 'audio/pcm;rate=16000',
+    data: btoa(binary),
+    mimeType: `audio/pcm;rate=${sampleRate}`,
   };
 }
 
@@ -105,3 +98,78 @@ export async function decodeAudioData(
   }
   return buffer;
 }
+
+// --- Metering ---
+
+// RMS level of the analyser's current window, 0..1
+export function readLevel(analyser: AnalyserNode): number {
+  const samples = new Float32Array(analyser.fftSize);
+  analyser.getFloatTimeDomainData(samples);
+  let sum = 0;
+  for (let i = 0; i < samples.length; i++) {
+    sum += samples[i] * samples[i];
+  }
+  return Math.min(1, Math.sqrt(sum / samples.length) * 4);
+}
+
+// Average magnitude of `count` equal frequency bands, each 0..1. The top
+// quarter of the spectrum holds little speech energy, so it is left out.
+export function readBands(analyser: AnalyserNode, count: number): number[] {
+  const bins = new Uint8Array(analyser.frequencyBinCount);
+  analyser.getByteFrequencyData(bins);
+  const usable = Math.floor(bins.length * 0.75);
+  const size = Math.max(1, Math.floor(usable / count));
+  return Array.from({ length: count }, (_, band) => {
+    let sum = 0;
+    for (let i = band * size; i < (band + 1) * size; i++) {
+      sum += bins[i];
+    }
+    return sum / size / 255;
+  });
+}
+
+// --- Clips For Analysis ---
+
+// Model input rate; more detail than speech needs, enough to judge a mix
+export const CLIP_SAMPLE_RATE = 16000;
+// Longest stretch sent from a file, from its start
+export const CLIP_MAX_SECONDS = 180;
+
+export interface PreparedClip {
+  wav: ArrayBuffer;
+  duration: number;
+  // Length of the source before trimming, in seconds
+  sourceDuration: number;
+}
+
+// Decodes any format the browser can play (WAV, MP3, OGG, WebM...), mixes it
+// down to mono and resamples it to CLIP_SAMPLE_RATE as a 16-bit WAV
+export async function prepareAudioClip(data: ArrayBuffer, maxSeconds = CLIP_MAX_SECONDS): Promise<PreparedClip> {
+  const decoder = new OfflineAudioContext(1, 1, CLIP_SAMPLE_RATE);
+  const decoded = await decoder.decodeAudioData(data);
+  const duration = Math.min(decoded.duration, maxSeconds);
+
+  // A mono destination downmixes, and the offline rate resamples
+  const offline = new OfflineAudioContext(1, Math.ceil(duration * CLIP_SAMPLE_RATE), CLIP_SAMPLE_RATE);
+  const source = offline.createBufferSource();
+  source.buffer = decoded;
+  source.connect(offline.destination);
+  source.start(0, 0, duration);
+  const rendered = await offline.startRendering();
+
+  return {
+    wav: pcmToWav(rendered.getChannelData(0), CLIP_SAMPLE_RATE),
+    duration,
+    sourceDuration: decoded.duration,
+  };
+}
+
+export function arrayBufferToBase64(buffer: ArrayBuffer): string {
+  const bytes = new Uint8Array(buffer);
+  let binary = '';
+  // Chunked, since spreading a whole file overflows the call stack
+  for (let i = 0; i < bytes.length; i += 0x8000) {
+    binary += String.fromCharCode(...bytes.subarray(i, i + 0x8000));
+  }
+  return btoa(binary);
+}
@@ -0,0 +1,96 @@
+import { CriticPersona, CriticStrictness } from '../types';
+import { CRITIC_SYSTEM_INSTRUCTION } from './aiPrompts';
+
+// --- Critic Personas ---
+// Presets for the Live critic. The shipped ones are always available; the
+// author's own are kept in localStorage with the one picked last.
+
+const PERSONAS_KEY = 'senhor_gotico_personas';
+const SELECTED_PERSONA_KEY = 'senhor_gotico_persona';
+
+// Prebuilt voices of the Live API
+export const CRITIC_VOICES = ['Fenrir', 'Charon', 'Orus', 'Puck', 'Kore', 'Aoede', 'Leda', 'Zephyr'] as const;
+
+export const CRITIC_LANGUAGES: { code: string, label: string }[] = [
+  { code: 'en-US', label: 'English' },
+  { code: 'pt-BR', label: 'Português (Brasil)' },
+  { code: 'pt-PT', label: 'Português (Portugal)' },
+  { code: 'es-ES', label: 'Español' },
+  { code: 'fr-FR', label: 'Français' },
+  { code: 'de-DE', label: 'Deutsch' },
+];
+
+export const CRITIC_STRICTNESS: { value: CriticStrictness, label: string }[] = [
+  { value: 'gentle', label: 'Gentle' },
+  { value: 'fair', label: 'Fair' },
+  { value: 'ruthless', label: 'Ruthless' },
+];
+
+export const BUILT_IN_PERSONAS: CriticPersona[] = [
+  {
+    id: 'builtin-critic',
+    name: 'The Critic',
+    instruction: CRITIC_SYSTEM_INSTRUCTION,
+    voice: 'Fenrir',
+    language: 'en-US',
+    strictness: 'fair',
+    builtIn: true,
+  },
+  {
+    id: 'builtin-senhor-gotico',
+    name: 'Senhor Gótico',
+    instruction: "Você é o Senhor Gótico, crítico musical do blog 'Senhor Gótico'. Debata música em tempo real, provoque o gosto do autor e fale de goth, darkwave, post-punk e industrial com conhecimento de causa. Seja espirituoso, sombrio e direto.",
+    voice: 'Charon',
+    language: 'pt-BR',
+    strictness: 'fair',
+    builtIn: true,
+  },
+  {
+    id: 'builtin-zine-editor',
+    name: 'Zine Editor',
+    instruction: "You are the editor of an old photocopied goth zine, reviewing drafts for the blog 'Senhor Gótico'. You have heard every record twice and trust none of them. Cut filler, demand specifics, and keep answers short.",
+    voice: 'Kore',
+    language: 'en-US',
+    strictness: 'ruthless',
+    builtIn: true,
+  },
+];
+
+const newPersonaId = () => `persona-${Date.now()}-${Math.random().toString(36).slice(2, 8)}`;
+
+const loadCustomPersonas = (): CriticPersona[] => {
+  try {
+    const saved = localStorage.getItem(PERSONAS_KEY);
+    return saved ? JSON.parse(saved) : [];
+  } catch {
+    return [];
+  }
+};
+
+const storeCustomPersonas = (personas: CriticPersona[]) =>
+  localStorage.setItem(PERSONAS_KEY, JSON.stringify(personas));
+
+// Shipped presets first, then the author's in the order they were made
+export const listPersonas = (): CriticPersona[] => [...BUILT_IN_PERSONAS, ...loadCustomPersonas()];
+
+// Falls back to the default when the saved choice was deleted
+export const findPersona = (id: string | null): CriticPersona =>
+  listPersonas().find(persona => persona.id === id) || BUILT_IN_PERSONAS[0];
+
+// Creates the persona when it has no id yet; built-in presets are never overwritten
+export const savePersona = (persona: Omit<CriticPersona, 'id' | 'builtIn'> & { id?: string }): CriticPersona => {
+  const custom = loadCustomPersonas();
+  const existing = persona.id ? custom.find(p => p.id === persona.id) : undefined;
+  const saved: CriticPersona = { ...persona, id: existing ? existing.id : newPersonaId() };
+  storeCustomPersonas(existing ? custom.map(p => p.id === saved.id ? saved : p) : [...custom, saved]);
+  return saved;
+};
+
+export const deletePersona = (id: string) => {
+  storeCustomPersonas(loadCustomPersonas().filter(persona => persona.id !== id));
+  if (localStorage.getItem(SELECTED_PERSONA_KEY) === id) localStorage.removeItem(SELECTED_PERSONA_KEY);
+};
+
+export const loadSelectedPersona = (): CriticPersona => findPersona(localStorage.getItem(SELECTED_PERSONA_KEY));
+
+export const selectPersona = (id: string) => localStorage.setItem(SELECTED_PERSONA_KEY, id);
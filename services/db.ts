@@ -0,0 +1,76 @@
+// --- IndexedDB Connection ---
+// Single database shared by every persistent store in the app.
+// Bump DB_VERSION and add a step to `upgrade` whenever a store or index changes.
+
+const DB_NAME = 'senhor_gotico';
+const DB_VERSION = 5;
+
+export const POSTS_STORE = 'posts';
+export const VEO_JOBS_STORE = 'veoJobs';
+export const MEDIA_STORE = 'media';
+export const TRANSCRIPTS_STORE = 'transcripts';
+export const EPISODES_STORE = 'episodes';
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+const upgrade = (db: IDBDatabase, oldVersion: number) => {
+  if (oldVersion < 1) {
+    const posts = db.createObjectStore(POSTS_STORE, { keyPath: 'id' });
+    posts.createIndex('genre', 'genre');
+    posts.createIndex('tags', 'tags', { multiEntry: true });
+    posts.createIndex('createdAt', 'createdAt');
+  }
+  if (oldVersion < 2) {
+    db.createObjectStore(VEO_JOBS_STORE, { keyPath: 'id' });
+  }
+  if (oldVersion < 3) {
+    const media = db.createObjectStore(MEDIA_STORE, { keyPath: 'id' });
+    media.createIndex('createdAt', 'createdAt');
+  }
+  if (oldVersion < 4) {
+    const transcripts = db.createObjectStore(TRANSCRIPTS_STORE, { keyPath: 'id' });
+    transcripts.createIndex('startedAt', 'startedAt');
+  }
+  if (oldVersion < 5) {
+    const episodes = db.createObjectStore(EPISODES_STORE, { keyPath: 'id' });
+    episodes.createIndex('createdAt', 'createdAt');
+  }
+};
+
+export const openDatabase = (): Promise<IDBDatabase> => {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = (event) => upgrade(request.result, event.oldVersion);
+      request.onsuccess = () => {
+        const db = request.result;
+        // Another tab upgraded the schema: drop our handle so the next call reopens
+        db.onversionchange = () => {
+          db.close();
+          dbPromise = null;
+        };
+        resolve(db);
+      };
+      request.onerror = () => {
+        dbPromise = null;
+        reject(request.error);
+      };
+    });
+  }
+  return dbPromise;
+};
+
+export function requestToPromise<T>(request: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+export function transactionDone(tx: IDBTransaction): Promise<void> {
+  return new Promise((resolve, reject) => {
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error);
+  });
+}
@@ -0,0 +1,57 @@
+import { Episode } from '../types';
+import { EPISODES_STORE, openDatabase, requestToPromise, transactionDone } from './db';
+import { deleteMedia, getMediaBlob, saveMedia } from './mediaLibrary';
+import { SessionRecording } from './sessionRecorder';
+
+// --- Podcast Episodes ---
+// Recorded Live sessions. The WAV lives in the media library; the episode ties
+// it to the session's transcript so both can be published together.
+
+const newEpisodeId = () => `episode-${Date.now()}-${Math.random().toString(36).slice(2, 8)}`;
+
+export const saveEpisode = async (recording: SessionRecording, transcriptId?: string): Promise<Episode> => {
+  const asset = await saveMedia(recording.wav, { source: 'live' });
+  const episode: Episode = {
+    id: newEpisodeId(),
+    mediaId: asset.id,
+    ...(transcriptId ? { transcriptId } : {}),
+    duration: recording.duration,
+    createdAt: new Date().toISOString(),
+  };
+
+  const db = await openDatabase();
+  const tx = db.transaction(EPISODES_STORE, 'readwrite');
+  tx.objectStore(EPISODES_STORE).put(episode);
+  await transactionDone(tx);
+  return episode;
+};
+
+// Newest first
+export const listEpisodes = async (): Promise<Episode[]> => {
+  const db = await openDatabase();
+  const records: Episode[] = await requestToPromise(db.transaction(EPISODES_STORE).objectStore(EPISODES_STORE).getAll());
+  return records.sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+};
+
+// Removes the episode and its audio. Callers check that no post still uses the audio.
+export const deleteEpisode = async (episode: Episode): Promise<void> => {
+  const db = await openDatabase();
+  const tx = db.transaction(EPISODES_STORE, 'readwrite');
+  tx.objectStore(EPISODES_STORE).delete(episode.id);
+  await transactionDone(tx);
+  await deleteMedia(episode.mediaId);
+};
+
+export const episodeFilename = (episode: Episode, extension = 'wav') =>
+  `senhor-gotico-episode-${episode.createdAt.slice(0, 16).replace(/[:T]/g, '-')}.${extension}`;
+
+export const downloadEpisode = async (episode: Episode): Promise<void> => {
+  const blob = await getMediaBlob(episode.mediaId);
+  if (!blob) throw new Error("The episode's recording is missing");
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = episodeFilename(episode);
+  link.click();
+  setTimeout(() => URL.revokeObjectURL(url), 1000);
+};
@@ -0,0 +1,157 @@
+import { BlogPost } from '../types';
+import { MUSIC_PLATFORMS } from './linkResolver';
+
+// --- Syndication Feeds ---
+// RSS 2.0, Atom 1.0 and JSON Feed 1.1 documents built from post data.
+// Dates always come from the ISO `createdAt`/`updatedAt` fields, never the
+// display-only `date` string.
+
+export interface FeedMeta {
+  title: string;
+  description: string;
+  siteUrl: string;
+  // Absolute URL of the HTML page this feed mirrors
+  pageUrl: string;
+  // Absolute URL the feed document itself will be served from
+  feedUrl: string;
+  language?: string;
+}
+
+export interface FeedEnclosure {
+  url: string;
+  type: string;
+  length: number;
+}
+
+export interface FeedEntry {
+  post: BlogPost;
+  url: string;
+  contentHtml: string;
+  enclosure?: FeedEnclosure;
+}
+
+const escapeXml = (value: string) =>
+  value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&apos;');
+
+// Keeps arbitrary HTML intact inside XML; "]]>" must be split across sections
+const cdata = (value: string) => `<![CDATA[${value.replace(/]]>/g, ']]]]><![CDATA[>')}]]>`;
+
+// RFC 822 (as updated by RFC 1123), e.g. "Wed, 01 Jan 2026 00:00:00 GMT"
+export const toRfc822 = (iso: string) => new Date(iso).toUTCString();
+
+export const toIso = (iso: string) => new Date(iso).toISOString();
+
+const latestUpdate = (entries: FeedEntry[]) =>
+  entries.reduce((latest, e) => (e.post.updatedAt > latest ? e.post.updatedAt : latest), entries[0]?.post.updatedAt || new Date(0).toISOString());
+
+const summaryOf = (post: BlogPost) =>
+  post.metaDescription || post.content.replace(/\s+/g, ' ').trim().slice(0, 280);
+
+// RSS has no element for related links, so readers get them in the body
+const withSourceLinks = (post: BlogPost, contentHtml: string) =>
+  post.sourceLinks?.length
+    ? `${contentHtml}\n<p>${post.sourceLinks
+        .map(link => `<a href="${escapeXml(link.url)}">${MUSIC_PLATFORMS[link.platform].action}</a>`)
+        .join(' · ')}</p>`
+    : contentHtml;
+
+export const buildRss = (entries: FeedEntry[], meta: FeedMeta): string => {
+  const items = entries.map(({ post, url, contentHtml, enclosure }) => {
+    const lines = [
+      `<title>${escapeXml(post.title)}</title>`,
+      `<link>${escapeXml(url)}</link>`,
+      `<guid isPermaLink="true">${escapeXml(url)}</guid>`,
+      `<pubDate>${toRfc822(post.createdAt)}</pubDate>`,
+      `<description>${escapeXml(summaryOf(post))}</description>`,
+      `<content:encoded>${cdata(withSourceLinks(post, contentHtml))}</content:encoded>`,
+      `<category>${escapeXml(post.genre)}</category>`,
+      ...post.tags.map(tag => `<category>${escapeXml(tag)}</category>`),
+    ];
+    if (enclosure) {
+      lines.push(`<enclosure url="${escapeXml(enclosure.url)}" length="${enclosure.length}" type="${escapeXml(enclosure.type)}"/>`);
+    }
+    return `<item>\n${lines.join('\n')}\n</item>`;
+  });
+
+  return `<?xml version="1.0" encoding="UTF-8"?>
+<rss version="2.0" xmlns:atom="http://www.w3.org/2005/Atom" xmlns:content="http://purl.org/rss/1.0/modules/content/">
+<channel>
+<title>${escapeXml(meta.title)}</title>
+<link>${escapeXml(meta.pageUrl)}</link>
+<description>${escapeXml(meta.description)}</description>
+<language>${escapeXml(meta.language || 'en')}</language>
+<lastBuildDate>${toRfc822(latestUpdate(entries))}</lastBuildDate>
+<atom:link href="${escapeXml(meta.feedUrl)}" rel="self" type="application/rss+xml"/>
+${items.join('\n')}
+</channel>
+</rss>
+`;
+};
+
+export const buildAtom = (entries: FeedEntry[], meta: FeedMeta): string => {
+  const items = entries.map(({ post, url, contentHtml, enclosure }) => {
+    const lines = [
+      `<id>${escapeXml(url)}</id>`,
+      `<title>${escapeXml(post.title)}</title>`,
+      `<link rel="alternate" type="text/html" href="${escapeXml(url)}"/>`,
+      `<published>${toIso(post.createdAt)}</published>`,
+      `<updated>${toIso(post.updatedAt)}</updated>`,
+      `<summary>${escapeXml(summaryOf(post))}</summary>`,
+      `<content type="html">${escapeXml(contentHtml)}</content>`,
+      `<category term="${escapeXml(post.genre)}"/>`,
+      ...post.tags.map(tag => `<category term="${escapeXml(tag)}"/>`),
+    ];
+    for (const link of post.sourceLinks || []) {
+      lines.push(`<link rel="related" type="text/html" href="${escapeXml(link.url)}"/>`);
+    }
+    if (enclosure) {
+      lines.push(`<link rel="enclosure" type="${escapeXml(enclosure.type)}" length="${enclosure.length}" href="${escapeXml(enclosure.url)}"/>`);
+    }
+    return `<entry>\n${lines.join('\n')}\n</entry>`;
+  });
+
+  return `<?xml version="1.0" encoding="UTF-8"?>
+<feed xmlns="http://www.w3.org/2005/Atom" xml:lang="${escapeXml(meta.language || 'en')}">
+<id>${escapeXml(meta.feedUrl)}</id>
+<title>${escapeXml(meta.title)}</title>
+<subtitle>${escapeXml(meta.description)}</subtitle>
+<updated>${toIso(latestUpdate(entries))}</updated>
+<link rel="self" type="application/atom+xml" href="${escapeXml(meta.feedUrl)}"/>
+<link rel="alternate" type="text/html" href="${escapeXml(meta.pageUrl)}"/>
+<author><name>${escapeXml(meta.title)}</name></author>
+${items.join('\n')}
+</feed>
+`;
+};
+
+export const buildJsonFeed = (entries: FeedEntry[], meta: FeedMeta): string => {
+  const feed = {
+    version: 'https://jsonfeed.org/version/1.1',
+    title: meta.title,
+    home_page_url: meta.pageUrl,
+    feed_url: meta.feedUrl,
+    description: meta.description,
+    language: meta.language || 'en',
+    items: entries.map(({ post, url, contentHtml, enclosure }) => ({
+      id: url,
+      url,
+      ...(post.sourceLinks?.length ? { external_url: post.sourceLinks[0].url } : {}),
+      title: post.title,
+      content_html: contentHtml,
+      summary: summaryOf(post),
+      ...(enclosure?.type.startsWith('image/') ? { image: enclosure.url } : {}),
+      date_published: toIso(post.createdAt),
+      date_modified: toIso(post.updatedAt),
+      tags: [post.genre, ...post.tags],
+      ...(enclosure
+        ? { attachments: [{ url: enclosure.url, mime_type: enclosure.type, size_in_bytes: enclosure.length }] }
+        : {}),
+    })),
+  };
+  return JSON.stringify(feed, null, 2);
+};
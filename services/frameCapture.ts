@@ -0,0 +1,94 @@
+import { Blob as MediaBlob } from '@google/genai';
+
+// --- Video Frames For The Live Critic ---
+// The Live API takes video as a stream of still JPEGs. Frames are taken from
+// the webcam or a still picture at a capped rate and scaled down, since the
+// model looks at roughly one frame a second anyway.
+
+export type FrameSourceKind = 'camera' | 'cover';
+
+// Frames per second the user can pick
+export const FRAME_RATES = [0.5, 1, 2];
+export const DEFAULT_FRAME_RATE = 1;
+
+// Longest side of a sent frame
+const MAX_FRAME_SIDE = 768;
+const JPEG_QUALITY = 0.7;
+
+export interface FrameCaptureOptions {
+  frameRate: number;
+  onFrame: (frame: MediaBlob) => void;
+}
+
+export interface FrameCapture {
+  // Live camera stream for the self-preview; null for a still picture
+  stream: MediaStream | null;
+  stop: () => void;
+}
+
+const encodeFrame = (source: CanvasImageSource, width: number, height: number, canvas: HTMLCanvasElement): MediaBlob | null => {
+  if (!width || !height) return null;
+  const scale = Math.min(1, MAX_FRAME_SIDE / Math.max(width, height));
+  canvas.width = Math.round(width * scale);
+  canvas.height = Math.round(height * scale);
+  const ctx = canvas.getContext('2d');
+  if (!ctx) return null;
+  ctx.drawImage(source, 0, 0, canvas.width, canvas.height);
+  const dataUrl = canvas.toDataURL('image/jpeg', JPEG_QUALITY);
+  return { data: dataUrl.slice(dataUrl.indexOf(',') + 1), mimeType: 'image/jpeg' };
+};
+
+// Sends a frame right away, then one per 1/frameRate seconds
+const startTimer = (frameRate: number, sendFrame: () => void) => {
+  sendFrame();
+  return setInterval(sendFrame, 1000 / frameRate);
+};
+
+export const startCameraFrames = async ({ frameRate, onFrame }: FrameCaptureOptions): Promise<FrameCapture> => {
+  const stream = await navigator.mediaDevices.getUserMedia({
+    video: { width: { ideal: 1280 }, height: { ideal: 720 } },
+  });
+  const video = document.createElement('video');
+  video.muted = true;
+  video.playsInline = true;
+  video.srcObject = stream;
+  try {
+    await video.play();
+  } catch (e) {
+    stream.getTracks().forEach(track => track.stop());
+    throw e;
+  }
+
+  const canvas = document.createElement('canvas');
+  const timer = startTimer(frameRate, () => {
+    const frame = encodeFrame(video, video.videoWidth, video.videoHeight, canvas);
+    if (frame) onFrame(frame);
+  });
+
+  return {
+    stream,
+    stop: () => {
+      clearInterval(timer);
+      video.srcObject = null;
+      stream.getTracks().forEach(track => track.stop());
+    },
+  };
+};
+
+// A still picture (the draft's cover) is resent at the same rate, so the critic
+// keeps it in view as the conversation goes on
+export const startImageFrames = async (src: string, { frameRate, onFrame }: FrameCaptureOptions): Promise<FrameCapture> => {
+  const image = new Image();
+  image.src = src;
+  await image.decode();
+
+  const canvas = document.createElement('canvas');
+  const frame = encodeFrame(image, image.naturalWidth, image.naturalHeight, canvas);
+  if (!frame) throw new Error('The picture could not be read');
+  const timer = startTimer(frameRate, () => onFrame(frame));
+
+  return {
+    stream: null,
+    stop: () => clearInterval(timer),
+  };
+};
@@ -1,128 +1,82 @@
-import { GoogleGenAI, LiveServerMessage, Modality, Blob } from '@google/genai';
+import { LiveServerMessage, Blob } from '@google/genai';
+import { VideoQuality } from '../types';
+import { AudioCritiqueResult, buildCriticInstruction, PostDraftResult, SeoResult } from './aiPrompts';
+import { AIProvider, AudioClip, CoverDraft, ImageRequest, InlineImage, LinkAnalysis, LiveCallbacks, LiveCloseInfo, LiveOptions, LiveSession, LiveSessionError, LiveToolResponse, VideoOperationStatus, VideoRequest } from './aiProvider';
+import { apiGetBlob, apiPost, liveSocketUrl } from './apiClient';
+import { BUILT_IN_PERSONAS } from './criticPersonas';
 
-const apiKey = process.env.API_KEY || '';
-
-// Initialize standard client
-// NOTE: For Veo, we will create a fresh instance with user-selected key
-const ai = new GoogleGenAI({ apiKey });
+// --- Gemini Provider ---
+// Talks to Gemini through our backend (server/), so the API key never reaches
+// the browser. Model choice and limits are enforced server-side.
 
 // --- Text & Search Grounding ---
 
-export const analyzeLink = async (url: string): Promise<{ title: string, metaDescription: string, content: string, sources: any[] }> => {
-  // Uses search grounding to get info about the link
-  const model = ai.models;
-  
-  const prompt = `Analyze this YouTube link: ${url}. 
-  1. Create a punchy, engaging, SEO-optimized blog post title.
-  2. Write a concise SEO meta description (max 160 characters).
-  3. Write a short, high-energy summary (max 150 words) explaining why this music is essential for the 'Senhor Gótico' blog.
-  
-  Strictly format your response as follows (do not use markdown for headers):
-  TITLE: [Your Title Here]
-  DESCRIPTION: [Your Description Here]
-  CONTENT: [Your Content Here]`;
-
+const analyzeLink = async (url: string): Promise<LinkAnalysis> => {
   try {
-    const response = await model.generateContent({
-      model: 'gemini-2.5-flash',
-      contents: prompt,
-      config: {
-        tools: [{ googleSearch: {} }],
-      },
-    });
-
-    const text = response.text || "Could not analyze link.";
-    const chunks = response.candidates?.[0]?.groundingMetadata?.groundingChunks || [];
-    
-    // Parsing
-    let title = "New Post";
-    let metaDescription = "";
-    let content = "";
-
-    const titleMatch = text.match(/TITLE:\s*(.*)/i);
-    const descMatch = text.match(/DESCRIPTION:\s*(.*)/i);
-    const contentSplit = text.split(/CONTENT:\s*/i);
-
-    if (titleMatch) title = titleMatch[1].trim();
-    if (descMatch) metaDescription = descMatch[1].trim();
-    if (contentSplit.length > 1) content = contentSplit[1].trim();
-
-    // Fallback if strict formatting failed
-    if (!content && !titleMatch) {
-        const lines = text.split('\n');
-        title = lines[0].replace(/^#+\s*/, '').replace(/\*\*/g, '');
-        content = lines.slice(1).join('\n').trim();
-    }
-    
-    const sources = chunks.map((c: any) => c.web).filter(Boolean);
-
-    return { title, metaDescription, content, sources };
+    return await apiPost<LinkAnalysis>('analyze', { url });
   } catch (error) {
     console.error("Link analysis failed", error);
     throw error;
   }
 };
 
-export const optimizePostMetadata = async (currentTitle: string, currentContent: string): Promise<{ title: string, metaDescription: string }> => {
+const optimizePostMetadata = async (currentTitle: string, currentContent: string): Promise<SeoResult> => {
   try {
-    const response = await ai.models.generateContent({
-      model: 'gemini-2.5-flash',
-      contents: `You are an SEO expert for a music blog. Analyze the following draft post:
-      
-      TITLE: ${currentTitle}
-      CONTENT: ${currentContent}
-      
-      Task:
-      1. Refine the title to be more engaging and SEO-friendly while keeping the original intent.
-      2. Write a compelling meta description (max 160 chars) summarizing the content.
-      
-      Output strictly in this format:
-      TITLE: [New Title]
-      DESCRIPTION: [New Description]`,
-    });
-    
-    const text = response.text || "";
-    let title = currentTitle;
-    let metaDescription = "";
-    
-    const titleMatch = text.match(/TITLE:\s*(.*)/i);
-    const descMatch = text.match(/DESCRIPTION:\s*(.*)/i);
-    
-    if (titleMatch) title = titleMatch[1].trim();
-    if (descMatch) metaDescription = descMatch[1].trim();
-    
-    return { title, metaDescription };
+    return await apiPost<SeoResult>('seo', { title: currentTitle, content: currentContent });
   } catch (e) {
     console.error("SEO optimization failed", e);
     throw e;
   }
 };
 
-// --- Image Editing (Nano Banana) ---
+const draftFromTranscript = async (transcript: string): Promise<PostDraftResult> => {
+  try {
+    return await apiPost<PostDraftResult>('transcript-draft', { transcript });
+  } catch (e) {
+    console.error("Transcript draft failed", e);
+    throw e;
+  }
+};
 
-export const editImage = async (imageBase64: string, prompt: string): Promise<string> => {
+// --- Audio Understanding ---
+
+const critiqueAudio = async (clip: AudioClip): Promise<AudioCritiqueResult> => {
   try {
-    const response = await ai.models.generateContent({
-      model: 'gemini-2.5-flash-image',
-      contents: {
-        parts: [
-          {
-            inlineData: {
-              mimeType: 'image/png',
-              data: imageBase64,
-            },
-          },
-          { text: prompt },
-        ],
-      },
+    return await apiPost<AudioCritiqueResult>('audio-critique', clip);
+  } catch (e) {
+    console.error("Audio critique failed", e);
+    throw e;
+  }
+};
+
+// --- Cover Art Generation (Imagen) ---
+
+const writeCoverPrompt = async (draft: CoverDraft): Promise<string> => {
+  const { prompt } = await apiPost<{ prompt: string }>('cover-prompt', draft);
+  return prompt;
+};
+
+const generateImages = async ({ prompt, style, aspectRatio, count }: ImageRequest): Promise<InlineImage[]> => {
+  try {
+    const { images } = await apiPost<{ images: InlineImage[] }>('image-generate', {
+      prompt,
+      style,
+      aspectRatio,
+      numberOfImages: count,
     });
+    return images;
+  } catch (e) {
+    console.error("Image generation failed", e);
+    throw e;
+  }
+};
 
-    for (const part of response.candidates?.[0]?.content?.parts || []) {
-      if (part.inlineData) {
-        return part.inlineData.data; // Returns base64
-      }
-    }
-    throw new Error("No image generated");
+// --- Image Editing (Nano Banana) ---
+
+const editImage = async (imageBase64: string, prompt: string, maskBase64?: string): Promise<string> => {
+  try {
+    const { image } = await apiPost<{ image: string }>('image-edit', { image: imageBase64, prompt, mask: maskBase64 });
+    return image; // Returns base64
   } catch (e) {
     console.error("Image edit failed", e);
     throw e;
@@ -130,90 +84,166 @@ export const editImage = async (imageBase64: string, prompt: string): Promise<st
 };
 
 // --- Video Generation (Veo) ---
+// Polling and persistence live in the job queue (services/veoJobs.ts)
+
+const VEO_MODELS: Record<VideoQuality, string> = {
+  fast: 'veo-3.1-fast-generate-preview',
+  quality: 'veo-3.1-generate-preview',
+};
+
+const startVideo = async ({ prompt, image, settings }: VideoRequest): Promise<string> => {
+  const { operation } = await apiPost<{ operation: string }>('veo/start', {
+    model: VEO_MODELS[settings.quality],
+    prompt,
+    image: image?.data,
+    mimeType: image?.mimeType,
+    negativePrompt: settings.negativePrompt || undefined,
+    aspectRatio: settings.aspectRatio,
+    resolution: settings.resolution,
+    numberOfVideos: settings.takes,
+  });
+  return operation;
+};
+
+const pollVideo = (operation: string): Promise<VideoOperationStatus> =>
+  apiPost<VideoOperationStatus>('veo/poll', { operation });
+
+const fetchVideo = (operation: string, index: number) =>
+  apiGetBlob(`veo/download?operation=${encodeURIComponent(operation)}&index=${index}`);
+
+// --- Live API (Audio) ---
+
+// Durations arrive as protobuf JSON, e.g. "30s" or "1.5s"
+const parseSeconds = (duration: string | undefined) => Number.parseFloat(duration || '') || 0;
+
+const relayError = (message: string) => /quota|resource.?exhausted|429/i.test(message)
+  ? new LiveSessionError('quota', message)
+  : new LiveSessionError('server', message, true);
 
-export const generateVeoVideo = async (imageBase64: string, prompt: string): Promise<string> => {
-  // CRITICAL: Check for paid key first
-  // @ts-ignore - window.aistudio is injected
-  if (!window.aistudio?.hasSelectedApiKey()) {
-    throw new Error("API_KEY_REQUIRED");
+const handleLiveMessage = (message: LiveServerMessage, callbacks: LiveCallbacks) => {
+  const resumption = message.sessionResumptionUpdate;
+  if (resumption?.resumable && resumption.newHandle) {
+    callbacks.onResumptionHandle?.(resumption.newHandle);
+  }
+  if (message.goAway) {
+    callbacks.onGoAway?.(parseSeconds(message.goAway.timeLeft));
   }
 
-  // Create NEW instance to grab the injected key
-  const veoAi = new GoogleGenAI({ apiKey: process.env.API_KEY });
+  const calls = message.toolCall?.functionCalls;
+  if (calls?.length) {
+    callbacks.onToolCall(calls.map(call => ({ id: call.id || '', name: call.name || '', args: call.args || {} })));
+  }
 
-  try {
-    let operation = await veoAi.models.generateVideos({
-      model: 'veo-3.1-fast-generate-preview',
-      prompt: prompt || "Animate this image cinematically",
-      image: {
-        imageBytes: imageBase64,
-        mimeType: 'image/png',
-      },
-      config: {
-        numberOfVideos: 1,
-        resolution: '720p',
-        aspectRatio: '16:9',
-      }
-    });
+  const content = message.serverContent;
+  if (!content) return;
 
-    while (!operation.done) {
-      await new Promise(resolve => setTimeout(resolve, 5000)); // Poll every 5s
-      operation = await veoAi.operations.getVideosOperation({ operation });
-    }
+  // Transcription comes separately from the audio, so neither waits for the other
+  if (content.inputTranscription?.text) {
+    callbacks.onTranscript('user', content.inputTranscription.text);
+  }
+  if (content.outputTranscription?.text) {
+    callbacks.onTranscript('critic', content.outputTranscription.text);
+  }
 
-    const videoUri = operation.response?.generatedVideos?.[0]?.video?.uri;
-    if (!videoUri) throw new Error("No video URI returned");
+  // Barge-in: the server stops generating and expects queued playback to be dropped
+  if (content.interrupted) {
+    callbacks.onInterrupted();
+    return;
+  }
 
-    // Fetch with key appended
-    const videoResponse = await fetch(`${videoUri}&key=${process.env.API_KEY}`);
-    const blob = await videoResponse.blob();
-    return URL.createObjectURL(blob);
-    
-  } catch (e) {
-    console.error("Veo generation failed", e);
-    throw e;
+  for (const part of content.modelTurn?.parts || []) {
+    if (part.inlineData?.data) callbacks.onAudio(part.inlineData);
   }
+
+  if (content.turnComplete) callbacks.onTurnComplete();
 };
 
-// --- Live API (Audio) ---
+const connectLiveSession = async (callbacks: LiveCallbacks, options: LiveOptions = {}): Promise<LiveSession> => {
+  const socket = new WebSocket(liveSocketUrl());
+  // Audio sent before the upstream session is open would be rejected by the relay
+  let ready = false;
+  // How the upstream session ended, when the relay told us
+  let closeInfo: LiveCloseInfo | undefined;
+
+  const send = (payload: unknown) => {
+    if (socket.readyState === WebSocket.OPEN) socket.send(JSON.stringify(payload));
+  };
+
+  const persona = options.persona || BUILT_IN_PERSONAS[0];
 
-export const connectLiveSession = async (
-  onOpen: () => void,
-  onMessage: (blob: Blob, transcript?: string) => void,
-  onError: (e: any) => void,
-  onClose: () => void
-) => {
-  return ai.live.connect({
-    model: 'gemini-2.5-flash-native-audio-preview-09-2025',
-    config: {
-      responseModalities: [Modality.AUDIO],
-      speechConfig: {
-        voiceConfig: { prebuiltVoiceConfig: { voiceName: 'Fenrir' } }, // Deep, authoritative voice
+  socket.onopen = () => {
+    send({
+      type: 'setup',
+      config: {
+        speechConfig: {
+          voiceConfig: { prebuiltVoiceConfig: { voiceName: persona.voice } },
+        },
+        systemInstruction: buildCriticInstruction(persona, options.context, !!options.tools?.length),
+        ...(options.tools?.length ? { tools: [{ functionDeclarations: options.tools }] } : {}),
+        // Always asked for, so a dropped connection can pick up where it was
+        sessionResumption: options.resumeHandle ? { handle: options.resumeHandle } : {},
+        ...(options.pushToTalk ? { realtimeInputConfig: { automaticActivityDetection: { disabled: true } } } : {}),
       },
-      systemInstruction: "You are an opinionated music critic for the blog 'Senhor Gótico'. Engage in real-time debates about music, offer sharp critiques on user taste, and discuss dark alternative genres. Be witty, mysterious, and concise.",
-      inputAudioTranscription: {},
-      outputAudioTranscription: {}
+    });
+  };
+
+  socket.onmessage = (event) => {
+    const data = JSON.parse(event.data);
+    switch (data.type) {
+      case 'open':
+        ready = true;
+        callbacks.onOpen();
+        break;
+      case 'message':
+        handleLiveMessage(data.message, callbacks);
+        break;
+      case 'error':
+        callbacks.onError(relayError(data.message));
+        break;
+      case 'closed':
+        closeInfo = { code: data.code, reason: data.reason };
+        break;
+    }
+  };
+
+  socket.onerror = () => callbacks.onError(new LiveSessionError('network', "Live relay connection failed", true));
+  socket.onclose = (event) => {
+    ready = false;
+    callbacks.onClose(closeInfo || { code: event.code, reason: event.reason });
+  };
+
+  return {
+    sendAudio: (audio: Blob) => {
+      if (ready) send({ type: 'realtimeInput', input: { media: audio } });
     },
-    callbacks: {
-      onopen: onOpen,
-      onmessage: (message: LiveServerMessage) => {
-        const audioData = message.serverContent?.modelTurn?.parts?.[0]?.inlineData;
-        let text = "";
-        if (message.serverContent?.modelTurn?.parts?.[0]?.text) {
-            text = message.serverContent.modelTurn.parts[0].text;
-        }
-        
-        // Also check transcription
-        if (message.serverContent?.outputTranscription?.text) {
-             text = message.serverContent.outputTranscription.text;
-        }
-
-        if (audioData) {
-          onMessage(audioData, text);
-        }
-      },
-      onerror: onError,
-      onclose: onClose,
+    sendVideo: (frame: Blob) => {
+      if (ready) send({ type: 'realtimeInput', input: { video: frame } });
     },
-  });
-};
\ No newline at end of file
+    startActivity: () => {
+      if (ready) send({ type: 'realtimeInput', input: { activityStart: {} } });
+    },
+    endActivity: () => {
+      if (ready) send({ type: 'realtimeInput', input: { activityEnd: {} } });
+    },
+    sendToolResponses: (responses: LiveToolResponse[]) => {
+      if (ready) send({ type: 'toolResponse', functionResponses: responses });
+    },
+    close: () => socket.close(),
+  };
+};
+
+export const geminiProvider: AIProvider = {
+  name: 'gemini',
+  capabilities: new Set(['text', 'audio', 'imageGenerate', 'imageEdit', 'video', 'live']),
+  analyzeLink,
+  optimizePostMetadata,
+  draftFromTranscript,
+  critiqueAudio,
+  writeCoverPrompt,
+  generateImages,
+  editImage,
+  startVideo,
+  pollVideo,
+  fetchVideo,
+  connectLive: connectLiveSession,
+};
@@ -0,0 +1,87 @@
+import { ImageHistory, ImageVersion } from '../types';
+
+// --- Image Edit History ---
+// Pure helpers over the version tree kept by the image editor. Every AI edit
+// adds a child of the version it was made from, so nothing is ever overwritten:
+// undo walks to the parent, redo to the newest child, and editing an older
+// version starts a new branch.
+
+const newVersionId = () => `v-${Date.now()}-${Math.random().toString(36).slice(2, 8)}`;
+
+export const createHistory = (mediaId: string, baseChain: string[] = []): ImageHistory => {
+  const root: ImageVersion = {
+    id: newVersionId(),
+    parentId: null,
+    mediaId,
+    prompt: null,
+    createdAt: new Date().toISOString(),
+  };
+  return { versions: [root], currentId: root.id, baseChain };
+};
+
+export const getVersion = (history: ImageHistory, id: string = history.currentId): ImageVersion | undefined =>
+  history.versions.find(version => version.id === id);
+
+export const currentVersion = (history: ImageHistory): ImageVersion => getVersion(history)!;
+
+export const addVersion = (history: ImageHistory, fromId: string, mediaId: string, prompt: string): ImageHistory => {
+  const version: ImageVersion = {
+    id: newVersionId(),
+    parentId: fromId,
+    mediaId,
+    prompt,
+    createdAt: new Date().toISOString(),
+  };
+  return { ...history, versions: [...history.versions, version], currentId: version.id };
+};
+
+export const selectVersion = (history: ImageHistory, id: string): ImageHistory =>
+  getVersion(history, id) ? { ...history, currentId: id } : history;
+
+const childrenOf = (history: ImageHistory, id: string) =>
+  history.versions.filter(version => version.parentId === id);
+
+export const canUndo = (history: ImageHistory) => currentVersion(history).parentId !== null;
+
+export const canRedo = (history: ImageHistory) => childrenOf(history, history.currentId).length > 0;
+
+export const undo = (history: ImageHistory): ImageHistory => {
+  const parentId = currentVersion(history).parentId;
+  return parentId ? { ...history, currentId: parentId } : history;
+};
+
+// Follows the most recent branch
+export const redo = (history: ImageHistory): ImageHistory => {
+  const children = childrenOf(history, history.currentId);
+  const newest = children.sort((a, b) => b.createdAt.localeCompare(a.createdAt))[0];
+  return newest ? { ...history, currentId: newest.id } : history;
+};
+
+// Versions from the original down to `id`
+export const pathTo = (history: ImageHistory, id: string = history.currentId): ImageVersion[] => {
+  const path: ImageVersion[] = [];
+  let version = getVersion(history, id);
+  while (version) {
+    path.unshift(version);
+    version = version.parentId ? getVersion(history, version.parentId) : undefined;
+  }
+  return path;
+};
+
+export const promptChain = (history: ImageHistory, id: string = history.currentId): string[] => [
+  ...history.baseChain,
+  ...pathTo(history, id).map(version => version.prompt).filter((prompt): prompt is string => !!prompt),
+];
+
+// Depth-first, oldest branch first, for rendering the tree as an indented list
+export const flattenTree = (history: ImageHistory): { version: ImageVersion, depth: number }[] => {
+  const rows: { version: ImageVersion, depth: number }[] = [];
+  const visit = (version: ImageVersion, depth: number) => {
+    rows.push({ version, depth });
+    childrenOf(history, version.id)
+      .sort((a, b) => a.createdAt.localeCompare(b.createdAt))
+      .forEach(child => visit(child, depth + 1));
+  };
+  history.versions.filter(version => version.parentId === null).forEach(root => visit(root, 0));
+  return rows;
+};
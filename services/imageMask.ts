@@ -0,0 +1,90 @@
+// --- Inpainting Masks ---
+// A mask is a canvas the size of the image where painted pixels are opaque and
+// everything else is transparent. It is sent to the model as a black and white
+// PNG, and afterwards used to composite the model's output back over the
+// original so pixels outside the mask are never touched.
+
+export interface MaskOptions {
+  feather: number; // soft edge radius in image pixels
+  invert: boolean; // edit everything except the painted area
+}
+
+const loadImage = async (src: string): Promise<HTMLImageElement> => {
+  const image = new Image();
+  image.src = src;
+  await image.decode();
+  return image;
+};
+
+const createCanvas = (width: number, height: number) => {
+  const canvas = document.createElement('canvas');
+  canvas.width = width;
+  canvas.height = height;
+  return canvas;
+};
+
+// The area the edit applies to, as opaque pixels with feathered edges
+const effectiveMask = (mask: HTMLCanvasElement, { feather, invert }: MaskOptions): HTMLCanvasElement => {
+  const result = createCanvas(mask.width, mask.height);
+  const ctx = result.getContext('2d')!;
+
+  if (invert) {
+    ctx.fillStyle = '#fff';
+    ctx.fillRect(0, 0, result.width, result.height);
+    ctx.globalCompositeOperation = 'destination-out';
+  }
+  if (feather > 0) ctx.filter = `blur(${feather}px)`;
+  ctx.drawImage(mask, 0, 0);
+  return result;
+};
+
+export const hasMaskedPixels = (mask: HTMLCanvasElement): boolean => {
+  const { data } = mask.getContext('2d')!.getImageData(0, 0, mask.width, mask.height);
+  for (let i = 3; i < data.length; i += 4) {
+    if (data[i] > 0) return true;
+  }
+  return false;
+};
+
+// Black background, white where the model may paint. Raw base64, no data: prefix.
+export const exportMaskPng = (mask: HTMLCanvasElement, options: MaskOptions): string => {
+  const output = createCanvas(mask.width, mask.height);
+  const ctx = output.getContext('2d')!;
+  ctx.fillStyle = '#000';
+  ctx.fillRect(0, 0, output.width, output.height);
+
+  // Tint the (feathered) mask white, then lay it over the black background
+  const area = effectiveMask(mask, options);
+  const areaCtx = area.getContext('2d')!;
+  areaCtx.globalCompositeOperation = 'source-in';
+  areaCtx.fillStyle = '#fff';
+  areaCtx.fillRect(0, 0, area.width, area.height);
+  ctx.drawImage(area, 0, 0);
+
+  return output.toDataURL('image/png').split(',')[1];
+};
+
+// Lays the edited image over the original through the mask and returns a PNG data URL.
+// Models may answer at a different size, so the edit is scaled to the original first.
+export const compositeWithMask = async (
+  originalSrc: string,
+  editedSrc: string,
+  mask: HTMLCanvasElement,
+  options: MaskOptions,
+): Promise<string> => {
+  const [original, edited] = await Promise.all([loadImage(originalSrc), loadImage(editedSrc)]);
+  const width = original.naturalWidth;
+  const height = original.naturalHeight;
+
+  const layer = createCanvas(width, height);
+  const layerCtx = layer.getContext('2d')!;
+  layerCtx.drawImage(edited, 0, 0, width, height);
+  layerCtx.globalCompositeOperation = 'destination-in';
+  layerCtx.drawImage(effectiveMask(mask, options), 0, 0, width, height);
+
+  const output = createCanvas(width, height);
+  const ctx = output.getContext('2d')!;
+  ctx.drawImage(original, 0, 0);
+  ctx.drawImage(layer, 0, 0);
+  return output.toDataURL('image/png');
+};
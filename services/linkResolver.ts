@@ -0,0 +1,141 @@
+import { MusicPlatform, SourceLink } from '../types';
+import { apiPost } from './apiClient';
+
+// --- Music Link Resolver ---
+// Recognises links to the platforms the blog writes about and normalises them:
+// tracking parameters go, the embed player URL is derived where the link alone
+// is enough. Artist, release and cover come from the platform via the server
+// (server/linkMetadata.ts), which also finds Bandcamp's player.
+
+export const MUSIC_PLATFORMS: Record<MusicPlatform, { name: string, action: string, icon: string }> = {
+  'youtube': { name: 'YouTube', action: 'Watch on YouTube', icon: 'smart_display' },
+  'bandcamp': { name: 'Bandcamp', action: 'Listen on Bandcamp', icon: 'album' },
+  'spotify': { name: 'Spotify', action: 'Listen on Spotify', icon: 'graphic_eq' },
+  'soundcloud': { name: 'SoundCloud', action: 'Listen on SoundCloud', icon: 'cloud' },
+  'apple-music': { name: 'Apple Music', action: 'Listen on Apple Music', icon: 'music_note' },
+};
+
+const SPOTIFY_TYPES = ['track', 'album', 'playlist', 'artist', 'episode', 'show'];
+
+// Accepts links pasted without a scheme ("youtu.be/...")
+const toUrl = (input: string): URL | null => {
+  const value = input.trim();
+  if (!value) return null;
+  try {
+    return new URL(/^[a-z][a-z\d+.-]*:/i.test(value) ? value : `https://${value}`);
+  } catch {
+    return null;
+  }
+};
+
+const parseYouTube = (url: URL): SourceLink | null => {
+  const host = url.hostname.replace(/^(www|m|music)\./, '');
+  let id: string | null = null;
+  if (host === 'youtu.be') {
+    id = url.pathname.slice(1).split('/')[0];
+  } else if (host === 'youtube.com') {
+    id = url.searchParams.get('v') || url.pathname.match(/^\/(?:shorts|embed|live)\/([\w-]+)/)?.[1] || null;
+  }
+  if (!id || !/^[\w-]{11}$/.test(id)) return null;
+  return {
+    platform: 'youtube',
+    url: `https://www.youtube.com/watch?v=${id}`,
+    embedUrl: `https://www.youtube.com/embed/${id}`,
+  };
+};
+
+const parseSpotify = (url: URL): SourceLink | null => {
+  if (url.hostname !== 'open.spotify.com') return null;
+  // Localised links carry a prefix: /intl-pt/album/...
+  const [type, id] = url.pathname.split('/').filter(part => part && !part.startsWith('intl-'));
+  if (!SPOTIFY_TYPES.includes(type) || !id || !/^[A-Za-z0-9]+$/.test(id)) return null;
+  return {
+    platform: 'spotify',
+    url: `https://open.spotify.com/${type}/${id}`,
+    embedUrl: `https://open.spotify.com/embed/${type}/${id}`,
+  };
+};
+
+const parseSoundCloud = (url: URL): SourceLink | null => {
+  const host = url.hostname.replace(/^(www|m)\./, '');
+  // on.soundcloud.com short links only resolve on the server, by following the redirect
+  if (host === 'on.soundcloud.com') return { platform: 'soundcloud', url: url.href };
+  if (host !== 'soundcloud.com') return null;
+  const path = url.pathname.replace(/\/+$/, '');
+  // An artist and at least a track or set: /artist/track, /artist/sets/name
+  if (path.split('/').filter(Boolean).length < 2) return null;
+  const normalized = `https://soundcloud.com${path}`;
+  return {
+    platform: 'soundcloud',
+    url: normalized,
+    embedUrl: `https://w.soundcloud.com/player/?url=${encodeURIComponent(normalized)}&color=%23ccff00&visual=false`,
+  };
+};
+
+const parseBandcamp = (url: URL): SourceLink | null => {
+  const match = url.hostname.match(/^([\w-]+)\.bandcamp\.com$/);
+  const page = url.pathname.match(/^\/(album|track)\/([\w-]+)/);
+  if (!match || match[1] === 'www' || !page) return null;
+  // The player is addressed by a numeric id that only the page itself has
+  return { platform: 'bandcamp', url: `https://${match[1]}.bandcamp.com/${page[1]}/${page[2]}` };
+};
+
+const parseAppleMusic = (url: URL): SourceLink | null => {
+  if (url.hostname !== 'music.apple.com') return null;
+  if (!/^\/[a-z]{2}\/(album|song|playlist|music-video)\//.test(url.pathname)) return null;
+  // ?i= picks a song on an album page; everything else is tracking
+  const song = url.searchParams.get('i');
+  const path = `${url.pathname.replace(/\/+$/, '')}${song ? `?i=${song}` : ''}`;
+  return {
+    platform: 'apple-music',
+    url: `https://music.apple.com${path}`,
+    embedUrl: `https://embed.music.apple.com${path}`,
+  };
+};
+
+const PARSERS = [parseYouTube, parseSpotify, parseSoundCloud, parseBandcamp, parseAppleMusic];
+
+// null when the link is not on a supported platform
+export const parseMusicLink = (input: string): SourceLink | null => {
+  const url = toUrl(input);
+  if (!url || (url.protocol !== 'https:' && url.protocol !== 'http:')) return null;
+  for (const parse of PARSERS) {
+    const link = parse(url);
+    if (link) return link;
+  }
+  return null;
+};
+
+// Player heights in pixels; YouTube scales to 16:9 instead
+export const embedHeight = (link: SourceLink): number | null => {
+  switch (link.platform) {
+    case 'youtube': return null;
+    case 'spotify': return /\/(track|episode)\//.test(link.url) ? 152 : 352;
+    case 'soundcloud': return /\/sets\//.test(link.url) ? 300 : 166;
+    case 'bandcamp': return /\/track\//.test(link.url) ? 120 : 470;
+    case 'apple-music': return /\/song\/|[?&]i=/.test(link.url) ? 175 : 450;
+  }
+};
+
+// "Release · Artist", or the bare URL when the platform told us nothing
+export const describeLink = (link: SourceLink) =>
+  [link.release, link.artist].filter(Boolean).join(' · ') || link.url.replace(/^https?:\/\//, '');
+
+// Adds the link, or refreshes it when the post already has it
+export const mergeSourceLink = (links: SourceLink[], link: SourceLink, first = false): SourceLink[] => {
+  const rest = links.filter(existing => existing.url !== link.url);
+  return first ? [link, ...rest] : [...rest, link];
+};
+
+// Parses locally and asks the server for metadata; without the server (mock and
+// local providers) the parsed link is still usable, just without details
+export const resolveMusicLink = async (input: string): Promise<SourceLink | null> => {
+  const parsed = parseMusicLink(input);
+  if (!parsed) return null;
+  try {
+    return await apiPost<SourceLink>('resolve-link', { url: parsed.url });
+  } catch (e) {
+    console.warn("Link metadata unavailable", e);
+    return parsed;
+  }
+};
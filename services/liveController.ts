@@ -0,0 +1,182 @@
+import {
+  AIProvider,
+  LiveCallbacks,
+  LiveCloseInfo,
+  LiveErrorKind,
+  LiveOptions,
+  LiveSession,
+  LiveSessionError,
+} from './aiProvider';
+
+// --- Live Session Controller ---
+// Keeps one conversation with the critic going across connections. A dropped
+// connection is reopened with backoff, resuming the server-side session when
+// the server handed out a resumption handle. Failures end up as typed
+// LiveSessionErrors, and the UI is warned before the session's time limit.
+
+export type LiveConnectionState = 'connecting' | 'live' | 'reconnecting';
+
+// Session caps of the Live API without context window compression
+const AUDIO_SESSION_SECONDS = 15 * 60;
+const VIDEO_SESSION_SECONDS = 2 * 60;
+const TIME_WARNING_SECONDS = 60;
+
+// One entry per attempt; the session ends once they run out
+const RECONNECT_DELAYS_MS = [1000, 2000, 4000, 8000, 16000];
+
+export const LIVE_ERROR_MESSAGES: Record<LiveErrorKind, string> = {
+  'permission': "Microphone or camera access was blocked. Allow it in the browser's site settings and try again.",
+  'no-device': 'No usable microphone was found. Plug one in or pick another in the settings.',
+  'network': 'Lost the connection to the critic.',
+  'quota': 'The Live API quota is used up for now. Try again later.',
+  'time-limit': 'The session reached its time limit. Start a new one to keep talking.',
+  'server': 'The critic could not be reached.',
+};
+
+// Media errors from getUserMedia and anything else thrown while connecting
+export const toLiveError = (error: unknown): LiveSessionError => {
+  if (error instanceof LiveSessionError) return error;
+  const message = error instanceof Error ? error.message : String(error);
+  if (error instanceof DOMException) {
+    if (error.name === 'NotAllowedError' || error.name === 'SecurityError') {
+      return new LiveSessionError('permission', message);
+    }
+    if (['NotFoundError', 'OverconstrainedError', 'NotReadableError'].includes(error.name)) {
+      return new LiveSessionError('no-device', message);
+    }
+  }
+  return /quota|resource.?exhausted|429/i.test(message)
+    ? new LiveSessionError('quota', message)
+    : new LiveSessionError('server', message, true);
+};
+
+type ForwardedCallbacks = 'onAudio' | 'onTranscript' | 'onTurnComplete' | 'onInterrupted' | 'onToolCall';
+
+export interface LiveControllerCallbacks extends Pick<LiveCallbacks, ForwardedCallbacks> {
+  // `attempt` counts reconnects since the connection was last live
+  onStateChange: (state: LiveConnectionState, attempt: number) => void;
+  // Seconds until the session is cut off, or null when no warning is due
+  onTimeWarning: (secondsLeft: number | null) => void;
+  // The conversation is over; no error when it was closed on purpose
+  onEnd: (error?: LiveSessionError) => void;
+}
+
+// Same surface as a single session; calls made while reconnecting are dropped
+export type LiveController = LiveSession;
+
+export const createLiveController = (
+  provider: AIProvider,
+  callbacks: LiveControllerCallbacks,
+  options: LiveOptions = {},
+): LiveController => {
+  let session: LiveSession | null = null;
+  // Bumped for every connection, so callbacks from an abandoned one are ignored
+  let generation = 0;
+  let attempt = 0;
+  let handle: string | undefined;
+  let lastError: LiveSessionError | null = null;
+  let startedAt: number | null = null;
+  let usedVideo = false;
+  let ended = false;
+  let retryTimer: ReturnType<typeof setTimeout> | null = null;
+
+  const secondsLeft = () => startedAt === null
+    ? Infinity
+    : (usedVideo ? VIDEO_SESSION_SECONDS : AUDIO_SESSION_SECONDS) - (Date.now() - startedAt) / 1000;
+
+  const clock = setInterval(() => {
+    const left = secondsLeft();
+    callbacks.onTimeWarning(left <= TIME_WARNING_SECONDS ? Math.max(0, Math.ceil(left)) : null);
+  }, 1000);
+
+  const end = (error?: LiveSessionError) => {
+    if (ended) return;
+    ended = true;
+    clearInterval(clock);
+    if (retryTimer) clearTimeout(retryTimer);
+    session?.close();
+    session = null;
+    callbacks.onTimeWarning(null);
+    callbacks.onEnd(error);
+  };
+
+  const handleClose = (id: number, info?: LiveCloseInfo) => {
+    if (id !== generation || ended) return;
+    session = null;
+    if (secondsLeft() <= 0) {
+      end(new LiveSessionError('time-limit', 'Session time limit reached'));
+      return;
+    }
+    if (lastError && !lastError.retryable) {
+      end(lastError);
+      return;
+    }
+    if (attempt >= RECONNECT_DELAYS_MS.length) {
+      end(lastError || new LiveSessionError('network', info?.reason || `Connection closed (${info?.code ?? 'no code'})`));
+      return;
+    }
+    retryTimer = setTimeout(connect, RECONNECT_DELAYS_MS[attempt]);
+    attempt++;
+    callbacks.onStateChange('reconnecting', attempt);
+  };
+
+  const connect = async () => {
+    const id = ++generation;
+    lastError = null;
+    retryTimer = null;
+    if (attempt === 0) callbacks.onStateChange('connecting', 0);
+
+    const current = <A extends unknown[]>(fn: (...args: A) => void) => (...args: A) => {
+      if (id === generation && !ended) fn(...args);
+    };
+
+    try {
+      const next = await provider.connectLive({
+        onOpen: current(() => {
+          attempt = 0;
+          startedAt ??= Date.now();
+          callbacks.onStateChange('live', 0);
+        }),
+        onAudio: current(callbacks.onAudio),
+        onTranscript: current(callbacks.onTranscript),
+        onTurnComplete: current(callbacks.onTurnComplete),
+        onInterrupted: current(callbacks.onInterrupted),
+        onToolCall: current(callbacks.onToolCall),
+        onResumptionHandle: current((next: string) => { handle = next; }),
+        // With a handle the next connection carries on, so there is nothing to warn about
+        onGoAway: current((timeLeft: number) => {
+          if (!handle) callbacks.onTimeWarning(Math.ceil(timeLeft));
+        }),
+        onError: current((error: unknown) => {
+          lastError = toLiveError(error);
+          console.warn("Live session error", lastError);
+        }),
+        onClose: (info) => handleClose(id, info),
+      }, { ...options, resumeHandle: handle });
+
+      if (id !== generation || ended) {
+        next.close();
+        return;
+      }
+      session = next;
+    } catch (e) {
+      if (id !== generation || ended) return;
+      lastError = toLiveError(e);
+      handleClose(id);
+    }
+  };
+
+  connect();
+
+  return {
+    sendAudio: (audio) => session?.sendAudio(audio),
+    sendVideo: (frame) => {
+      usedVideo = true;
+      session?.sendVideo(frame);
+    },
+    startActivity: () => session?.startActivity(),
+    endActivity: () => session?.endActivity(),
+    sendToolResponses: (responses) => session?.sendToolResponses(responses),
+    close: () => end(),
+  };
+};
@@ -0,0 +1,202 @@
+import { BlogPost, Genre, GENRES } from '../types';
+import { LiveToolCall, LiveToolDeclaration } from './aiProvider';
+import { getPost, listPosts } from './postRepository';
+import { s, Spec, validate } from './structuredOutput';
+
+// --- Live Critic Tools ---
+// Functions the critic may call mid-conversation to look things up in the blog
+// or work on the open entry. Arguments are validated with the same specs as
+// structured output; problems go back to the model as the call's result.
+
+export interface DraftSnapshot {
+  title: string;
+  content: string;
+  genre: Genre;
+  tags: string[];
+  coverImage: string | null; // data: URL
+  // A published post reopened for editing rather than a new entry
+  editing: boolean;
+}
+
+// The entry being written, as PostCreator exposes it
+export interface DraftAccess {
+  readDraft: () => DraftSnapshot;
+  setGenre: (genre: Genre) => void;
+  appendParagraph: (text: string) => void;
+  // Offered to the author; nothing is added until they pick one
+  suggestTags: (tags: string[]) => void;
+}
+
+type ToolResult = Record<string, unknown>;
+
+interface LiveTool<T> {
+  description: string;
+  args: Spec<T>;
+  // Short line for the UI, e.g. `Searched posts for "xymox"`
+  summarize: (args: T) => string;
+  run: (args: T, draft: DraftAccess | null) => Promise<ToolResult>;
+}
+
+const RECENT_POST_COUNT = 10;
+const SEARCH_RESULT_LIMIT = 5;
+// Enough of a post to discuss it without filling the context window
+const READ_POST_MAX_CHARS = 6000;
+const EXCERPT_CHARS = 200;
+
+const excerpt = (content: string) => {
+  const plain = content.replace(/[#*_>`]/g, '').replace(/\s+/g, ' ').trim();
+  return plain.length > EXCERPT_CHARS ? `${plain.slice(0, EXCERPT_CHARS)}…` : plain;
+};
+
+const postSummary = (post: BlogPost) => ({
+  id: post.id,
+  title: post.title,
+  publishedAt: post.createdAt,
+  status: post.status,
+  genre: post.genre,
+  tags: post.tags,
+});
+
+// Every word of the query must appear in the title, tags or body
+const matchesQuery = (post: BlogPost, query: string) => {
+  const haystack = [post.title, post.content, post.metaDescription || '', ...post.tags].join(' ').toLowerCase();
+  return query.toLowerCase().split(/\s+/).filter(Boolean).every(word => haystack.includes(word));
+};
+
+const requireDraft = (draft: DraftAccess | null): DraftAccess => {
+  if (!draft) throw new Error('No entry is open in the editor');
+  return draft;
+};
+
+const tool = <T>(definition: LiveTool<T>) => definition;
+
+const LIVE_TOOLS = {
+  search_posts: tool({
+    description: 'Search the blog\'s posts by artist, album, genre, tag or any words. Returns the newest matches with ids and publish dates.',
+    args: s.object({
+      query: s.string({ description: 'Words to look for, e.g. an artist name.', minLength: 1, maxLength: 200 }),
+    }),
+    summarize: ({ query }) => `Searched posts for "${query}"`,
+    run: async ({ query }) => {
+      const matches = (await listPosts()).filter(post => matchesQuery(post, query));
+      return {
+        total: matches.length,
+        posts: matches.slice(0, SEARCH_RESULT_LIMIT).map(post => ({ ...postSummary(post), excerpt: excerpt(post.content) })),
+      };
+    },
+  }),
+  read_post: tool({
+    description: 'Read the full text of one post, by the id that search_posts or the recent posts list gave.',
+    args: s.object({
+      id: s.string({ description: 'The post id.', minLength: 1 }),
+    }),
+    summarize: ({ id }) => `Read post ${id}`,
+    run: async ({ id }) => {
+      const post = await getPost(id);
+      if (!post) return { error: `No post with id "${id}"` };
+      const truncated = post.content.length > READ_POST_MAX_CHARS;
+      return {
+        ...postSummary(post),
+        metaDescription: post.metaDescription,
+        content: truncated ? post.content.slice(0, READ_POST_MAX_CHARS) : post.content,
+        truncated,
+      };
+    },
+  }),
+  suggest_tags: tool({
+    description: 'Suggest tags for the entry being written. The author decides which ones to add.',
+    args: s.object({
+      tags: s.array(s.string({ description: 'One tag, without #.', minLength: 1, maxLength: 40 }), { minItems: 1, maxItems: 8 }),
+    }),
+    summarize: ({ tags }) => `Suggested tags: ${tags.map(tag => `#${tag}`).join(' ')}`,
+    run: async ({ tags }, draft) => {
+      const access = requireDraft(draft);
+      const current = access.readDraft().tags;
+      const fresh = [...new Set(tags.map(tag => tag.replace(/^#/, '').trim()))].filter(tag => tag && !current.includes(tag));
+      access.suggestTags(fresh);
+      return { suggested: fresh, alreadyOnEntry: current };
+    },
+  }),
+  set_genre: tool({
+    description: 'Set the genre of the entry being written.',
+    args: s.object({
+      genre: s.enumOf(GENRES, 'The genre to file the entry under.'),
+    }),
+    summarize: ({ genre }) => `Set genre to ${genre}`,
+    run: async ({ genre }, draft) => {
+      const access = requireDraft(draft);
+      const previous = access.readDraft().genre;
+      access.setGenre(genre);
+      return { genre, previous };
+    },
+  }),
+  append_paragraph: tool({
+    description: 'Add a paragraph to the end of the entry being written. Only when the author asks for it.',
+    args: s.object({
+      text: s.string({ description: 'The paragraph, in Markdown.', minLength: 1, maxLength: 2000 }),
+    }),
+    summarize: ({ text }) => `Added a paragraph: "${text.length > 40 ? `${text.slice(0, 40)}…` : text}"`,
+    run: async ({ text }, draft) => {
+      requireDraft(draft).appendParagraph(text);
+      return { appended: true };
+    },
+  }),
+};
+
+type LiveToolName = keyof typeof LIVE_TOOLS;
+
+export const LIVE_TOOL_DECLARATIONS: LiveToolDeclaration[] = (Object.keys(LIVE_TOOLS) as LiveToolName[]).map(name => ({
+  name,
+  description: LIVE_TOOLS[name].description,
+  parameters: LIVE_TOOLS[name].args.schema,
+}));
+
+export interface LiveToolOutcome {
+  summary: string;
+  response: ToolResult;
+  failed: boolean;
+}
+
+// Never throws: whatever went wrong is reported to the model so it can recover
+export const runLiveTool = async (call: LiveToolCall, draft: DraftAccess | null): Promise<LiveToolOutcome> => {
+  const definition: LiveTool<unknown> | undefined = LIVE_TOOLS[call.name as LiveToolName];
+  if (!definition) {
+    return { summary: `Unknown tool ${call.name}`, response: { error: `Unknown function "${call.name}"` }, failed: true };
+  }
+
+  const { value, issues } = validate(definition.args, call.args);
+  if (issues.length > 0) {
+    return { summary: `${call.name}: invalid arguments`, response: { error: `Invalid arguments: ${issues.join('; ')}` }, failed: true };
+  }
+
+  const summary = definition.summarize(value);
+  try {
+    const response = await definition.run(value, draft);
+    return { summary, response, failed: 'error' in response };
+  } catch (e) {
+    return { summary, response: { error: (e as Error).message }, failed: true };
+  }
+};
+
+// --- Session Context ---
+
+const describeDraft = (draft: DraftSnapshot) => [
+  draft.editing ? 'The author is editing a published post:' : 'The author is writing a new entry:',
+  `Title: ${draft.title || '(untitled)'}`,
+  `Genre: ${draft.genre}`,
+  `Tags: ${draft.tags.join(', ') || '(none)'}`,
+  `Content:\n${draft.content.slice(0, READ_POST_MAX_CHARS) || '(empty)'}`,
+].join('\n');
+
+// What the critic knows when the session opens; tools fetch anything more
+export const buildCriticContext = async (draft: DraftAccess | null): Promise<string> => {
+  const recent = (await listPosts()).slice(0, RECENT_POST_COUNT);
+  return [
+    `Today is ${new Date().toISOString().slice(0, 10)}.`,
+    draft ? describeDraft(draft.readDraft()) : 'No entry is open in the editor.',
+    recent.length === 0
+      ? 'The blog has no posts yet.'
+      : `Most recent posts (newest first):\n${recent.map(post =>
+          `- [${post.id}] "${post.title}" (${post.genre}, ${post.createdAt.slice(0, 10)}, ${post.status})`).join('\n')}`,
+  ].join('\n\n');
+};
@@ -0,0 +1,104 @@
+import { LiveTranscript, TranscriptEntry, TranscriptSpeaker } from '../types';
+import { openDatabase, requestToPromise, TRANSCRIPTS_STORE, transactionDone } from './db';
+
+// --- Live Session Transcripts ---
+// The Live API streams transcription of both sides in small chunks. They are
+// folded into speaker turns here and every session is kept, so a good debate
+// can be exported or turned into a post afterwards.
+
+const SPEAKER_LABELS: Record<TranscriptSpeaker, string> = {
+  user: 'You',
+  critic: 'Critic',
+};
+
+const newTranscriptId = () => `live-${Date.now()}-${Math.random().toString(36).slice(2, 8)}`;
+
+export const createTranscript = (): LiveTranscript => ({
+  id: newTranscriptId(),
+  startedAt: new Date().toISOString(),
+  entries: [],
+});
+
+// Continues the current turn, or starts a new one when the speaker changed or finished
+export const appendTranscript = (
+  transcript: LiveTranscript,
+  speaker: TranscriptSpeaker,
+  text: string,
+  at: Date = new Date(),
+): LiveTranscript => {
+  if (!text) return transcript;
+  const entries = [...transcript.entries];
+  const last = entries[entries.length - 1];
+  if (last && last.speaker === speaker && !last.complete) {
+    entries[entries.length - 1] = { ...last, text: last.text + text };
+  } else {
+    entries.push({ speaker, text: text.trimStart(), at: at.toISOString() });
+  }
+  return { ...transcript, entries };
+};
+
+export const completeTurn = (transcript: LiveTranscript): LiveTranscript => {
+  const last = transcript.entries[transcript.entries.length - 1];
+  if (!last || last.complete) return transcript;
+  return { ...transcript, entries: [...transcript.entries.slice(0, -1), { ...last, complete: true }] };
+};
+
+// Closes the critic's turn as cut off; what it had said so far is kept
+export const interruptTurn = (transcript: LiveTranscript): LiveTranscript => {
+  const last = transcript.entries[transcript.entries.length - 1];
+  if (!last || last.speaker !== 'critic' || last.complete) return completeTurn(transcript);
+  return {
+    ...transcript,
+    entries: [...transcript.entries.slice(0, -1), { ...last, complete: true, interrupted: true }],
+  };
+};
+
+// --- Formatting ---
+
+export const speakerLabel = (speaker: TranscriptSpeaker) => SPEAKER_LABELS[speaker];
+
+// Time into the session as m:ss
+export const entryOffset = (transcript: LiveTranscript, entry: TranscriptEntry): string => {
+  const seconds = Math.max(0, Math.round((Date.parse(entry.at) - Date.parse(transcript.startedAt)) / 1000));
+  return `${Math.floor(seconds / 60)}:${String(seconds % 60).padStart(2, '0')}`;
+};
+
+const entryText = (entry: TranscriptEntry) => `${entry.text.trim()}${entry.interrupted ? ' [cut off]' : ''}`;
+
+const spokenEntries = (transcript: LiveTranscript) => transcript.entries.filter(entry => entry.text.trim());
+
+export const transcriptToText = (transcript: LiveTranscript): string =>
+  spokenEntries(transcript)
+    .map(entry => `[${entryOffset(transcript, entry)}] ${speakerLabel(entry.speaker)}: ${entryText(entry)}`)
+    .join('\n');
+
+export const transcriptToMarkdown = (transcript: LiveTranscript): string => [
+  `# Live critic session, ${new Date(transcript.startedAt).toLocaleString()}`,
+  ...spokenEntries(transcript).map(entry =>
+    `**${speakerLabel(entry.speaker)}** _(${entryOffset(transcript, entry)})_: ${entryText(entry)}`),
+].join('\n\n') + '\n';
+
+// --- Persistence ---
+
+export const saveTranscript = async (transcript: LiveTranscript): Promise<void> => {
+  const db = await openDatabase();
+  const tx = db.transaction(TRANSCRIPTS_STORE, 'readwrite');
+  tx.objectStore(TRANSCRIPTS_STORE).put(transcript);
+  await transactionDone(tx);
+};
+
+// Newest first
+export const listTranscripts = async (): Promise<LiveTranscript[]> => {
+  const db = await openDatabase();
+  const records: LiveTranscript[] = await requestToPromise(
+    db.transaction(TRANSCRIPTS_STORE).objectStore(TRANSCRIPTS_STORE).getAll(),
+  );
+  return records.sort((a, b) => b.startedAt.localeCompare(a.startedAt));
+};
+
+export const deleteTranscript = async (id: string): Promise<void> => {
+  const db = await openDatabase();
+  const tx = db.transaction(TRANSCRIPTS_STORE, 'readwrite');
+  tx.objectStore(TRANSCRIPTS_STORE).delete(id);
+  await transactionDone(tx);
+};
@@ -0,0 +1,89 @@
+import {
+  buildCoverPrompt,
+  buildDraftPrompt,
+  buildSeoPrompt,
+  buildTranscriptDraftPrompt,
+  COVER_PROMPT_SPEC,
+  POST_DRAFT_SPEC,
+  SEO_SPEC,
+} from './aiPrompts';
+import { AICapability, AIProvider, UnsupportedCapabilityError } from './aiProvider';
+import { parseMusicLink } from './linkResolver';
+import { generateStructured, StructuredCompletion, toJsonSchema } from './structuredOutput';
+
+// --- Local HTTP Provider ---
+// Text tasks against any OpenAI-compatible chat completions server
+// (Ollama, llama.cpp server, LM Studio, vLLM...). There is no search grounding,
+// so link analysis works from the URL alone and returns no sources.
+
+export interface LocalProviderConfig {
+  // Base URL up to and including the API version, e.g. http://localhost:11434/v1
+  baseUrl: string;
+  model: string;
+  apiKey?: string;
+}
+
+export const createLocalProvider = (config: LocalProviderConfig): AIProvider => {
+  const endpoint = `${config.baseUrl.replace(/\/+$/, '')}/chat/completions`;
+
+  const completeJson: StructuredCompletion = async (turns, schema) => {
+    const response = await fetch(endpoint, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        ...(config.apiKey ? { Authorization: `Bearer ${config.apiKey}` } : {}),
+      },
+      body: JSON.stringify({
+        model: config.model,
+        temperature: 0.7,
+        response_format: { type: 'json_object' },
+        messages: [
+          {
+            role: 'system',
+            content: `Reply with a single JSON object matching this JSON Schema, and nothing else:\n${JSON.stringify(toJsonSchema(schema))}`,
+          },
+          ...turns.map(turn => ({ role: turn.role === 'model' ? 'assistant' : 'user', content: turn.text })),
+        ],
+      }),
+    });
+    if (!response.ok) {
+      throw new Error(`Local AI server responded ${response.status}: ${await response.text()}`);
+    }
+    const data = await response.json();
+    return data.choices?.[0]?.message?.content || '';
+  };
+
+  const unsupported = (capability: AICapability) => async (): Promise<never> => {
+    throw new UnsupportedCapabilityError('local', capability);
+  };
+
+  return {
+    name: 'local',
+    capabilities: new Set(['text']),
+    analyzeLink: async (url) => {
+      const draft = await generateStructured(completeJson, {
+        spec: POST_DRAFT_SPEC,
+        prompt: buildDraftPrompt(url, ''),
+      });
+      return { ...draft, sources: [], mode: 'link', highlights: [], link: parseMusicLink(url) };
+    },
+    optimizePostMetadata: (title, content) =>
+      generateStructured(completeJson, { spec: SEO_SPEC, prompt: buildSeoPrompt(title, content) }),
+    draftFromTranscript: (transcript) =>
+      generateStructured(completeJson, { spec: POST_DRAFT_SPEC, prompt: buildTranscriptDraftPrompt(transcript) }),
+    writeCoverPrompt: async ({ title, genre, content }) => {
+      const { prompt } = await generateStructured(completeJson, {
+        spec: COVER_PROMPT_SPEC,
+        prompt: buildCoverPrompt(title, genre, content),
+      });
+      return prompt;
+    },
+    critiqueAudio: unsupported('audio'),
+    generateImages: unsupported('imageGenerate'),
+    editImage: unsupported('imageEdit'),
+    startVideo: unsupported('video'),
+    pollVideo: unsupported('video'),
+    fetchVideo: unsupported('video'),
+    connectLive: unsupported('live'),
+  };
+};
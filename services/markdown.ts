@@ -0,0 +1,183 @@
+import { escapeHtml } from './html';
+
+// --- Markdown Rendering ---
+// Small CommonMark-ish renderer for post bodies. All raw HTML in the source is
+// escaped before any markup is produced, and only http(s)/mailto/relative URLs
+// survive in links and images, so the output is safe to inject into the page.
+// Single newlines become <br> so text written as plain prose keeps its breaks.
+
+const FENCE = /^\s*(```|~~~)\s*([\w-]*)\s*$/;
+const HEADING = /^\s{0,3}(#{1,6})\s+(.*?)\s*#*\s*$/;
+const RULE = /^\s{0,3}([-*_])(\s*\1){2,}\s*$/;
+const QUOTE = /^\s{0,3}>\s?/;
+const LIST_ITEM = /^(\s*)([-*+]|\d{1,9}[.)])\s+(.*)$/;
+
+// Placeholder delimiters for already-rendered inline fragments
+const TOKEN_OPEN = '\u0000';
+const TOKEN_CLOSE = '\u0001';
+
+const safeUrl = (escapedUrl: string, allowMail = true): string | null => {
+  const url = escapedUrl.trim();
+  if (/^[a-z][a-z0-9+.-]*:/i.test(url)) {
+    return /^https?:/i.test(url) || (allowMail && /^mailto:/i.test(url)) ? url : null;
+  }
+  // Protocol-relative URLs could point anywhere
+  return url.startsWith('//') ? null : url;
+};
+
+const renderEmphasis = (text: string) =>
+  text
+    .replace(/\*\*(?=\S)(.+?)(?<=\S)\*\*/g, '<strong>$1</strong>')
+    .replace(/__(?=\S)(.+?)(?<=\S)__/g, '<strong>$1</strong>')
+    .replace(/\*(?=\S)(.+?)(?<=\S)\*/g, '<em>$1</em>')
+    .replace(/(^|[^\w])_(?=\S)(.+?)(?<=\S)_(?!\w)/g, '$1<em>$2</em>')
+    .replace(/~~(?=\S)(.+?)(?<=\S)~~/g, '<del>$1</del>');
+
+// Expects HTML-escaped input
+const renderInline = (escaped: string): string => {
+  const fragments: string[] = [];
+  const stash = (html: string) => `${TOKEN_OPEN}${fragments.push(html) - 1}${TOKEN_CLOSE}`;
+
+  let text = escaped
+    .replace(/(`+)(.+?)\1/g, (_, __, code) => stash(`<code>${code.trim()}</code>`))
+    .replace(/!\[([^\]]*)\]\(([^)\s]+)\)/g, (match, alt, src) => {
+      const url = safeUrl(src, false);
+      return url ? stash(`<img src="${url}" alt="${alt}" loading="lazy">`) : match;
+    })
+    .replace(/\[([^\]]+)\]\(([^)\s]+)\)/g, (match, label, href) => {
+      const url = safeUrl(href);
+      return url
+        ? stash(`<a href="${url}" target="_blank" rel="noopener noreferrer">${renderEmphasis(label)}</a>`)
+        : match;
+    })
+    .replace(/&lt;((?:https?:\/\/|mailto:)[^\s&]+)&gt;/g, (_, href) =>
+      stash(`<a href="${href}" target="_blank" rel="noopener noreferrer">${href}</a>`));
+
+  text = renderEmphasis(text);
+
+  const restore = new RegExp(`${TOKEN_OPEN}(\\d+)${TOKEN_CLOSE}`, 'g');
+  return text.replace(restore, (_, index) => fragments[Number(index)]);
+};
+
+const renderParagraph = (lines: string[]) =>
+  `<p>${lines.map(line => renderInline(escapeHtml(line.trim()))).join('<br>')}</p>`;
+
+const startsBlock = (line: string) =>
+  FENCE.test(line) || HEADING.test(line) || RULE.test(line) || QUOTE.test(line) || LIST_ITEM.test(line);
+
+const renderList = (lines: string[], start: number): { html: string, next: number } => {
+  const first = lines[start].match(LIST_ITEM)!;
+  const indent = first[1].length;
+  const ordered = /\d/.test(first[2]);
+  const items: string[][] = [];
+  let i = start;
+
+  while (i < lines.length) {
+    const line = lines[i];
+    const item = line.match(LIST_ITEM);
+    if (item && item[1].length === indent && /\d/.test(item[2]) === ordered) {
+      items.push([item[3]]);
+      i++;
+    } else if (line.trim() && (line.match(/^\s*/)![0].length > indent)) {
+      // Continuation or nested content belongs to the current item
+      items[items.length - 1].push(line.slice(Math.min(indent + 2, line.match(/^\s*/)![0].length)));
+      i++;
+    } else if (!line.trim() && i + 1 < lines.length && lines[i + 1].match(/^\s*/)![0].length > indent) {
+      items[items.length - 1].push('');
+      i++;
+    } else {
+      break;
+    }
+  }
+
+  const tag = ordered ? 'ol' : 'ul';
+  const startAttr = ordered && parseInt(first[2], 10) !== 1 ? ` start="${parseInt(first[2], 10)}"` : '';
+  const body = items
+    .map(itemLines => {
+      // Tight items render without a wrapping paragraph
+      const inner = renderBlocks(itemLines).replace(/^<p>([\s\S]*?)<\/p>/, '$1');
+      return `<li>${inner}</li>`;
+    })
+    .join('');
+  return { html: `<${tag}${startAttr}>${body}</${tag}>`, next: i };
+};
+
+const renderBlocks = (lines: string[]): string => {
+  const out: string[] = [];
+  let i = 0;
+
+  while (i < lines.length) {
+    const line = lines[i];
+
+    if (!line.trim()) {
+      i++;
+      continue;
+    }
+
+    const fence = line.match(FENCE);
+    if (fence) {
+      const code: string[] = [];
+      i++;
+      while (i < lines.length && !lines[i].trim().startsWith(fence[1])) {
+        code.push(lines[i]);
+        i++;
+      }
+      i++; // closing fence
+      const lang = fence[2] ? ` class="language-${escapeHtml(fence[2])}"` : '';
+      out.push(`<pre><code${lang}>${escapeHtml(code.join('\n'))}</code></pre>`);
+      continue;
+    }
+
+    const heading = line.match(HEADING);
+    if (heading) {
+      const level = heading[1].length;
+      out.push(`<h${level}>${renderInline(escapeHtml(heading[2]))}</h${level}>`);
+      i++;
+      continue;
+    }
+
+    if (RULE.test(line)) {
+      out.push('<hr>');
+      i++;
+      continue;
+    }
+
+    if (QUOTE.test(line)) {
+      const quoted: string[] = [];
+      while (i < lines.length && QUOTE.test(lines[i])) {
+        quoted.push(lines[i].replace(QUOTE, ''));
+        i++;
+      }
+      out.push(`<blockquote>${renderBlocks(quoted)}</blockquote>`);
+      continue;
+    }
+
+    if (LIST_ITEM.test(line)) {
+      const { html, next } = renderList(lines, i);
+      out.push(html);
+      i = next;
+      continue;
+    }
+
+    const paragraph: string[] = [];
+    while (i < lines.length && lines[i].trim() && !startsBlock(lines[i])) {
+      paragraph.push(lines[i]);
+      i++;
+    }
+    out.push(renderParagraph(paragraph));
+  }
+
+  return out.join('\n');
+};
+
+export const renderMarkdown = (source: string): string =>
+  renderBlocks(source.replace(/\r\n?/g, '\n').replace(/[\u0000\u0001]/g, '').split('\n'));
+
+// Legacy plain-text bodies: escaped, blank lines split paragraphs, breaks kept
+export const renderPlainText = (source: string): string =>
+  source
+    .replace(/\r\n?/g, '\n')
+    .split(/\n{2,}/)
+    .filter(block => block.trim())
+    .map(block => `<p>${escapeHtml(block).replace(/\n/g, '<br>')}</p>`)
+    .join('\n');
@@ -0,0 +1,175 @@
+import { BlogPost, MediaAsset, MediaKind, MediaSource } from '../types';
+import { MEDIA_STORE, openDatabase, requestToPromise, transactionDone } from './db';
+
+// --- Media Library ---
+// Images, videos and audio live here as blobs with their metadata; posts, drafts and
+// Veo jobs only hold the asset id. Object URLs are created once per asset and
+// cached for the lifetime of the page.
+
+type StoredMedia = MediaAsset & { blob: Blob };
+
+export interface MediaMetadata {
+  source: MediaSource;
+  prompt?: string;
+}
+
+export type MediaChange = { type: 'saved' | 'deleted', id: string };
+
+const objectUrls = new Map<string, string>();
+const listeners = new Set<(change: MediaChange) => void>();
+
+export const onMediaChange = (listener: (change: MediaChange) => void) => {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+};
+
+const emit = (change: MediaChange) => listeners.forEach(listener => listener(change));
+
+const newMediaId = () => `media-${Date.now()}-${Math.random().toString(36).slice(2, 8)}`;
+
+const kindOf = (mimeType: string): MediaKind | null => {
+  if (mimeType.startsWith('image/')) return 'image';
+  if (mimeType.startsWith('video/')) return 'video';
+  if (mimeType.startsWith('audio/')) return 'audio';
+  return null;
+};
+
+// Reads pixel size and duration by loading the blob off-screen
+const probe = (blob: Blob, kind: MediaKind): Promise<Pick<MediaAsset, 'width' | 'height' | 'duration'>> => {
+  const url = URL.createObjectURL(blob);
+  const done = <T>(value: T) => {
+    URL.revokeObjectURL(url);
+    return value;
+  };
+
+  if (kind === 'image') {
+    const image = new Image();
+    image.src = url;
+    return image.decode()
+      .then(() => done({ width: image.naturalWidth, height: image.naturalHeight }))
+      .catch(() => done({}));
+  }
+
+  return new Promise(resolve => {
+    const element = document.createElement(kind === 'video' ? 'video' : 'audio');
+    element.preload = 'metadata';
+    element.onloadedmetadata = () => resolve(done({
+      ...(element instanceof HTMLVideoElement ? { width: element.videoWidth, height: element.videoHeight } : {}),
+      duration: Number.isFinite(element.duration) ? element.duration : undefined,
+    }));
+    element.onerror = () => resolve(done({}));
+    element.src = url;
+  });
+};
+
+const toAsset = ({ blob: _, ...asset }: StoredMedia): MediaAsset => asset;
+
+export const saveMedia = async (blob: Blob, metadata: MediaMetadata): Promise<MediaAsset> => {
+  const kind = kindOf(blob.type);
+  if (!kind) {
+    throw new Error(`Unsupported media type "${blob.type || 'unknown'}"`);
+  }
+
+  const record: StoredMedia = {
+    id: newMediaId(),
+    kind,
+    mimeType: blob.type,
+    size: blob.size,
+    ...(await probe(blob, kind)),
+    ...(metadata.prompt ? { prompt: metadata.prompt } : {}),
+    source: metadata.source,
+    createdAt: new Date().toISOString(),
+    blob,
+  };
+
+  const db = await openDatabase();
+  const tx = db.transaction(MEDIA_STORE, 'readwrite');
+  tx.objectStore(MEDIA_STORE).put(record);
+  await transactionDone(tx);
+  emit({ type: 'saved', id: record.id });
+  return toAsset(record);
+};
+
+// Stores whatever a data: or blob: URL points at
+export const importMediaUrl = async (url: string, metadata: MediaMetadata): Promise<MediaAsset> => {
+  const response = await fetch(url);
+  return saveMedia(await response.blob(), metadata);
+};
+
+const getRecord = async (id: string): Promise<StoredMedia | undefined> => {
+  const db = await openDatabase();
+  return requestToPromise(db.transaction(MEDIA_STORE).objectStore(MEDIA_STORE).get(id));
+};
+
+export const getMedia = async (id: string): Promise<MediaAsset | undefined> => {
+  const record = await getRecord(id);
+  return record && toAsset(record);
+};
+
+export const getMediaBlob = async (id: string): Promise<Blob | undefined> => (await getRecord(id))?.blob;
+
+export const getMediaUrl = async (id: string): Promise<string | undefined> => {
+  let url = objectUrls.get(id);
+  if (!url) {
+    const blob = await getMediaBlob(id);
+    if (!blob) return undefined;
+    url = URL.createObjectURL(blob);
+    objectUrls.set(id, url);
+  }
+  return url;
+};
+
+// Newest first
+export const listMedia = async (): Promise<MediaAsset[]> => {
+  const db = await openDatabase();
+  const records: StoredMedia[] = await requestToPromise(db.transaction(MEDIA_STORE).objectStore(MEDIA_STORE).getAll());
+  return records.map(toAsset).sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+};
+
+export const deleteMedia = async (id: string): Promise<void> => {
+  const db = await openDatabase();
+  const tx = db.transaction(MEDIA_STORE, 'readwrite');
+  tx.objectStore(MEDIA_STORE).delete(id);
+  await transactionDone(tx);
+
+  const url = objectUrls.get(id);
+  if (url) {
+    URL.revokeObjectURL(url);
+    objectUrls.delete(id);
+  }
+  emit({ type: 'deleted', id });
+};
+
+// --- Usage ---
+
+export const referencedMediaIds = (posts: BlogPost[], extra: (string | undefined)[] = []): Set<string> =>
+  new Set([...posts.map(post => post.mediaId), ...extra].filter((id): id is string => !!id));
+
+const findUnusedMedia = async (used: Set<string>): Promise<MediaAsset[]> =>
+  (await listMedia()).filter(asset => !used.has(asset.id));
+
+export const deleteUnusedMedia = async (used: Set<string>): Promise<number> => {
+  const unused = await findUnusedMedia(used);
+  for (const asset of unused) {
+    await deleteMedia(asset.id);
+  }
+  return unused.length;
+};
+
+// --- Helpers ---
+
+export const blobToDataUrl = (blob: Blob): Promise<string> =>
+  new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => resolve(reader.result as string);
+    reader.onerror = () => reject(reader.error);
+    reader.readAsDataURL(blob);
+  });
+
+export const formatBytes = (bytes: number) => {
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`;
+  return `${(bytes / 1024 / 1024).toFixed(1)} MB`;
+};
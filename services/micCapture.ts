@@ -0,0 +1,148 @@
+// --- Microphone Capture ---
+// Mic audio runs through an AudioWorklet that resamples to the 16 kHz mono PCM
+// the Live API expects, whatever rate the device and AudioContext actually run
+// at, and posts small chunks for low latency. A GainNode in front sets the input
+// level and an AnalyserNode taps it for metering. Low-pass filters ahead of the
+// worklet remove what would alias above the 8 kHz Nyquist limit.
+
+export const CAPTURE_SAMPLE_RATE = 16000;
+// Below Nyquist for 16 kHz, with room for the filters' roll-off
+const ANTI_ALIAS_CUTOFF = 7000;
+// Two biquads in series give a 24 dB/octave slope
+const ANTI_ALIAS_STAGES = 2;
+// 40 ms per chunk at 16 kHz
+const CHUNK_SAMPLES = 640;
+
+const WORKLET_NAME = 'pcm16-capture';
+
+// Linear interpolation resampler; its input is already band-limited by the
+// filters in front of it. The read position carries over between
+// render quanta, so chunk boundaries do not click.
+const WORKLET_SOURCE = `
+class Pcm16Capture extends AudioWorkletProcessor {
+  constructor(options) {
+    super();
+    this.targetRate = options.processorOptions.targetRate;
+    this.chunkSize = options.processorOptions.chunkSize;
+    this.step = sampleRate / this.targetRate;
+    this.position = 0;
+    this.previous = 0;
+    this.chunk = new Int16Array(this.chunkSize);
+    this.filled = 0;
+  }
+
+  process(inputs) {
+    const input = inputs[0] && inputs[0][0];
+    if (!input) return true;
+
+    while (this.position < input.length) {
+      const index = Math.floor(this.position);
+      const fraction = this.position - index;
+      const a = index === 0 ? this.previous : input[index - 1];
+      const b = input[index];
+      const sample = Math.max(-1, Math.min(1, a + (b - a) * fraction));
+      this.chunk[this.filled++] = sample < 0 ? sample * 0x8000 : sample * 0x7fff;
+      if (this.filled === this.chunkSize) {
+        this.port.postMessage(this.chunk.buffer, [this.chunk.buffer]);
+        this.chunk = new Int16Array(this.chunkSize);
+        this.filled = 0;
+      }
+      this.position += this.step;
+    }
+    this.position -= input.length;
+    this.previous = input[input.length - 1];
+    return true;
+  }
+}
+registerProcessor('${WORKLET_NAME}', Pcm16Capture);
+`;
+
+let workletUrl: string | null = null;
+
+const getWorkletUrl = () => {
+  if (!workletUrl) {
+    workletUrl = URL.createObjectURL(new Blob([WORKLET_SOURCE], { type: 'text/javascript' }));
+  }
+  return workletUrl;
+};
+
+export interface MicCaptureOptions {
+  deviceId?: string; // default device when omitted
+  gain: number; // linear, 1 = unchanged
+  onChunk: (samples: Int16Array) => void; // 16 kHz mono PCM
+}
+
+export interface MicCapture {
+  analyser: AnalyserNode;
+  setGain: (gain: number) => void;
+  stop: () => void;
+}
+
+export const startMicCapture = async ({ deviceId, gain, onChunk }: MicCaptureOptions): Promise<MicCapture> => {
+  const stream = await navigator.mediaDevices.getUserMedia({
+    audio: {
+      ...(deviceId ? { deviceId: { exact: deviceId } } : {}),
+      channelCount: 1,
+      echoCancellation: true,
+      noiseSuppression: true,
+    },
+  });
+
+  // Runs at the hardware rate; the worklet does the conversion
+  const context = new AudioContext();
+  try {
+    await context.audioWorklet.addModule(getWorkletUrl());
+  } catch (e) {
+    stream.getTracks().forEach(track => track.stop());
+    await context.close();
+    throw e;
+  }
+
+  const source = context.createMediaStreamSource(stream);
+  const gainNode = context.createGain();
+  gainNode.gain.value = gain;
+  const analyser = context.createAnalyser();
+  analyser.fftSize = 256;
+  const worklet = new AudioWorkletNode(context, WORKLET_NAME, {
+    numberOfInputs: 1,
+    numberOfOutputs: 0,
+    channelCount: 1,
+    channelCountMode: 'explicit',
+    processorOptions: { targetRate: CAPTURE_SAMPLE_RATE, chunkSize: CHUNK_SAMPLES },
+  });
+  worklet.port.onmessage = (event: MessageEvent<ArrayBuffer>) => onChunk(new Int16Array(event.data));
+  const filters = Array.from({ length: ANTI_ALIAS_STAGES }, () => {
+    const filter = context.createBiquadFilter();
+    filter.type = 'lowpass';
+    filter.frequency.value = ANTI_ALIAS_CUTOFF;
+    return filter;
+  });
+
+  source.connect(gainNode);
+  gainNode.connect(analyser);
+  // gain -> filters -> worklet
+  filters.reduce<AudioNode>((from, to) => from.connect(to), gainNode).connect(worklet);
+
+  let stopped = false;
+  return {
+    analyser,
+    setGain: (value: number) => gainNode.gain.setTargetAtTime(value, context.currentTime, 0.02),
+    stop: () => {
+      if (stopped) return;
+      stopped = true;
+      worklet.port.onmessage = null;
+      source.disconnect();
+      gainNode.disconnect();
+      filters.forEach(filter => filter.disconnect());
+      worklet.disconnect();
+      stream.getTracks().forEach(track => track.stop());
+      context.close();
+    },
+  };
+};
+
+// Device labels are empty until the page has been granted mic access once
+export const listMicrophones = async (): Promise<MediaDeviceInfo[]> => {
+  const devices = await navigator.mediaDevices.enumerateDevices();
+  return devices.filter(device => device.kind === 'audioinput' && device.deviceId);
+};
@@ -0,0 +1,357 @@
+import { Blob } from '@google/genai';
+import { ImageAspectRatio } from '../types';
+import { AudioCritiqueResult, COVER_STYLES, PostDraftResult, VideoHighlight } from './aiPrompts';
+import { AIProvider, AudioClip, GroundingSource, ImageRequest, InlineImage, LiveCallbacks, LiveOptions, LiveSession, VideoOperationStatus, VideoRequest } from './aiProvider';
+import { parseMusicLink } from './linkResolver';
+
+// --- Mock Provider ---
+// Deterministic fixture responses for offline development and automated tests.
+// The same input always yields the same output; nothing touches the network.
+
+const LATENCY_MS = 300;
+
+const delay = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+// Stable string hash (FNV-1a) used to pick fixtures
+const hash = (value: string) => {
+  let h = 0x811C9DC5;
+  for (let i = 0; i < value.length; i++) {
+    h ^= value.charCodeAt(i);
+    h = Math.imul(h, 0x01000193);
+  }
+  return h >>> 0;
+};
+
+export const LINK_FIXTURES: (PostDraftResult & { sources: GroundingSource[] })[] = [
+  {
+    title: 'Clan of Xymox Still Rule the Cold Wave',
+    metaDescription: 'Why the Dutch darkwave pioneers remain the blueprint for every shadow-draped synth band working today.',
+    content: '## A blueprint in black\n\n**Clan of Xymox** never chased trends; they *set* them.\n\n> Hail to the dark.\n\nCold drum machines, shimmering chorus guitars and a voice like a candle in a crypt.',
+    sources: [{ uri: 'https://example.com/fixtures/clan-of-xymox', title: 'Fixture: Clan of Xymox discography' }],
+  },
+  {
+    title: 'Front 242 and the Body Music That Built EBM',
+    metaDescription: 'A fixture review of Front 242: sequencer discipline, barked vocals and the dancefloor manifesto of EBM.',
+    content: '## Headhunters welcome\n\n**Front 242** turned the sequencer into a weapon.\n\n- Relentless basslines\n- Militant vocals\n- Zero wasted notes',
+    sources: [{ uri: 'https://example.com/fixtures/front-242', title: 'Fixture: Front 242 history' }],
+  },
+  {
+    title: 'Lebanon Hanover Make Heartbreak Sound Like Frost',
+    metaDescription: 'A fixture take on Lebanon Hanover: minimal post-punk, chilly synths and songs that ache in all the right places.',
+    content: '## Minimal, bleak, perfect\n\n**Lebanon Hanover** prove that less is colder.\n\nA lone bass line, a distant drum machine and two voices trading despair.',
+    sources: [{ uri: 'https://example.com/fixtures/lebanon-hanover', title: 'Fixture: Lebanon Hanover interview' }],
+  },
+];
+
+export const VIDEO_HIGHLIGHT_FIXTURES: VideoHighlight[] = [
+  { time: '0:42', note: 'The bass line enters alone' },
+  { time: '2:14', note: 'The drop: drum machine at full tilt' },
+  { time: '3:30', note: 'Strobe-lit close-up of the singer' },
+];
+
+// Stand-ins for what the author said, since the mock does not transcribe audio
+export const LIVE_USER_FIXTURES = [
+  'This record is the best thing to come out of the scene in years.',
+  'Come on, the production alone makes it worth it.',
+  'Fine. What would you put on instead?',
+];
+
+export const LIVE_FIXTURES = [
+  'Bold choice. But is it darkwave, or just sad synthpop in a black coat?',
+  'The bass carries it. The vocals are doing cosplay.',
+  'Play me the B-side. That is where the real rot lives.',
+];
+
+// Said before a reply when the critic was shown something through the camera
+export const LIVE_VIDEO_REMARK = 'I see the sleeve.';
+
+// Replies for personas that speak Portuguese
+export const LIVE_FIXTURES_PT = [
+  'Escolha ousada. Mas isso é darkwave ou só synthpop triste de casaco preto?',
+  'O baixo segura tudo. Os vocais estão fantasiados.',
+  'Toca o lado B. É lá que mora a podridão de verdade.',
+];
+
+const clamp = (value: string, max: number) => (value.length > max ? `${value.slice(0, max - 1).trimEnd()}…` : value);
+
+// Picked by file name; the clip's length shows the audio made it through
+const fixtureCritique = (clip: AudioClip): AudioCritiqueResult => {
+  const genres = ['Darkwave', 'Post-Punk', 'EBM'] as const;
+  const genre = genres[hash(clip.name) % genres.length];
+  const name = clip.name.replace(/\.[^.]+$/, '') || 'Untitled demo';
+  return {
+    title: clamp(`${name}: A ${genre} Demo Under the Knife`, 120),
+    metaDescription: clamp(`A fixture critique of ${Math.round(clip.duration)} seconds of ${name}: production, tempo, mood and ${genre} credentials.`, 160),
+    content: [
+      `## Production\n\n**${name}** sounds like a bedroom demo that wants a cathedral: dry drums, a bass up front and vocals buried in reverb.`,
+      '## Tempo\n\nAround **120 BPM**, steady as a drum machine on its last battery.',
+      '## Mood\n\nCold, restless and a little too pleased with its own gloom.',
+      `## Genre fit\n\nSquarely **${genre}**, with a wandering eye for the dancefloor.`,
+    ].join('\n\n'),
+    genre,
+  };
+};
+
+// Short decaying tone as 24 kHz 16-bit PCM, standing in for the critic's voice
+const fixtureVoice = (seconds: number, frequency: number): Blob => {
+  const sampleRate = 24000;
+  const samples = new Int16Array(Math.floor(sampleRate * seconds));
+  for (let i = 0; i < samples.length; i++) {
+    const t = i / sampleRate;
+    samples[i] = Math.sin(2 * Math.PI * frequency * t) * Math.exp(-3 * t) * 0.3 * 32767;
+  }
+  const bytes = new Uint8Array(samples.buffer);
+  let binary = '';
+  for (let i = 0; i < bytes.length; i++) binary += String.fromCharCode(bytes[i]);
+  return { data: btoa(binary), mimeType: 'audio/pcm;rate=24000' };
+};
+
+// Dark gradient with a "moon" whose position and tint depend on the prompt and
+// candidate index, so candidates differ visibly but stay reproducible
+const IMAGE_SIZES: Record<ImageAspectRatio, [number, number]> = {
+  '1:1': [512, 512],
+  '4:3': [640, 480],
+  '3:4': [480, 640],
+  '16:9': [640, 360],
+  '9:16': [360, 640],
+};
+
+const fixtureImage = ({ prompt, style, aspectRatio }: ImageRequest, index: number): InlineImage => {
+  const [width, height] = IMAGE_SIZES[aspectRatio];
+  const seed = hash(`${prompt}|${style}|${index}`);
+  const hue = seed % 360;
+
+  const canvas = document.createElement('canvas');
+  canvas.width = width;
+  canvas.height = height;
+  const ctx = canvas.getContext('2d')!;
+  const gradient = ctx.createLinearGradient(0, 0, 0, height);
+  gradient.addColorStop(0, `hsl(${hue}, 50%, 18%)`);
+  gradient.addColorStop(1, '#050505');
+  ctx.fillStyle = gradient;
+  ctx.fillRect(0, 0, width, height);
+
+  ctx.fillStyle = `hsla(${(hue + 180) % 360}, 80%, 85%, 0.9)`;
+  ctx.beginPath();
+  ctx.arc(width * (0.2 + (seed % 60) / 100), height * 0.35, Math.min(width, height) * 0.15, 0, Math.PI * 2);
+  ctx.fill();
+
+  ctx.fillStyle = '#000';
+  ctx.fillRect(0, height * 0.75, width, height * 0.25);
+  return { data: canvas.toDataURL('image/png').split(',')[1], mimeType: 'image/png' };
+};
+
+// Records a few seconds of the image slowly zooming, so video UI has something real to play.
+// Without an image (text-to-video, or an operation resumed after reload) it zooms
+// over a plain dark frame whose tint differs per take.
+const fixtureVideo = async (source: InlineImage | undefined, portrait: boolean, take: number): Promise<globalThis.Blob> => {
+  let image: HTMLImageElement | null = null;
+  if (source) {
+    image = new Image();
+    image.src = `data:${source.mimeType};base64,${source.data}`;
+    await image.decode();
+  }
+
+  const canvas = document.createElement('canvas');
+  canvas.width = portrait ? 360 : 640;
+  canvas.height = portrait ? 640 : 360;
+  const ctx = canvas.getContext('2d')!;
+  const recorder = new MediaRecorder(canvas.captureStream(30), { mimeType: 'video/webm' });
+  const chunks: BlobPart[] = [];
+  recorder.ondataavailable = e => chunks.push(e.data);
+  const stopped = new Promise(resolve => (recorder.onstop = resolve));
+
+  const durationMs = 2000;
+  const start = performance.now();
+  recorder.start();
+  await new Promise<void>(resolve => {
+    const frame = () => {
+      const progress = Math.min(1, (performance.now() - start) / durationMs);
+      const scale = 1 + progress * 0.15;
+      const w = canvas.width * scale;
+      const h = canvas.height * scale;
+      if (image) {
+        ctx.drawImage(image, (canvas.width - w) / 2, (canvas.height - h) / 2, w, h);
+      } else {
+        ctx.fillStyle = `hsl(${280 + take * 40}, 60%, ${8 + progress * 12}%)`;
+        ctx.fillRect(0, 0, canvas.width, canvas.height);
+      }
+      if (progress < 1) requestAnimationFrame(frame);
+      else resolve();
+    };
+    requestAnimationFrame(frame);
+  });
+  recorder.stop();
+  await stopped;
+
+  return new window.Blob(chunks, { type: 'video/webm' });
+};
+
+// Fixture operations "render" for a fixed time. Start time, take count and
+// orientation are part of the operation name, so polling keeps working after a reload.
+const VIDEO_RENDER_MS = 8000;
+const videoSources = new Map<string, InlineImage>();
+
+const parseOperation = (operation: string) => {
+  const [, startedAt, takes, orientation] = operation.split('/');
+  return { startedAt: Number(startedAt), takes: Number(takes) || 1, portrait: orientation === 'portrait' };
+};
+
+const startVideo = async ({ image, prompt, settings }: VideoRequest): Promise<string> => {
+  await delay(LATENCY_MS);
+  const orientation = settings.aspectRatio === '9:16' ? 'portrait' : 'landscape';
+  const operation = `mock-veo/${Date.now()}/${settings.takes}/${orientation}/${hash((image?.data || '') + prompt).toString(36)}`;
+  if (image) videoSources.set(operation, image);
+  return operation;
+};
+
+const pollVideo = async (operation: string): Promise<VideoOperationStatus> => {
+  await delay(LATENCY_MS);
+  const { startedAt, takes } = parseOperation(operation);
+  if (!startedAt) return { done: true, videoCount: 0, error: 'Unknown operation' };
+  const done = Date.now() - startedAt >= VIDEO_RENDER_MS;
+  return { done, videoCount: done ? takes : 0 };
+};
+
+// What the mock critic looks up in the archive before its first reply
+export const LIVE_TOOL_QUERY = 'darkwave';
+
+// In push-to-talk mode the critic answers each released utterance; otherwise it
+// answers after every ~3 seconds of microphone audio. Starting to talk while a
+// reply is still "playing" interrupts it. When tools are offered, the first
+// reply waits on a search_posts call and mentions what came back. A reply
+// after video frames arrived remarks on what it was shown.
+const connectLive = async (
+  { onOpen, onAudio, onTranscript, onTurnComplete, onInterrupted, onToolCall, onClose }: LiveCallbacks,
+  { pushToTalk = false, persona, tools = [] }: LiveOptions = {},
+): Promise<LiveSession> => {
+  const bytesPerReply = 16000 * 2 * 3; // 16 kHz, 16-bit
+  const voiceSeconds = 1;
+  let received = 0;
+  let turn = 0;
+  let speakingUntil = 0;
+  let closed = false;
+  let framesSeen = 0;
+  // Replies waiting on a tool response, by call id
+  const pendingCalls = new Map<string, (response: Record<string, unknown>) => void>();
+  const canSearch = tools.some(tool => tool.name === 'search_posts');
+  const lines = persona?.language.startsWith('pt') ? LIVE_FIXTURES_PT : LIVE_FIXTURES;
+
+  setTimeout(() => !closed && onOpen(), LATENCY_MS);
+
+  const reply = () => {
+    received = 0;
+    const said = LIVE_USER_FIXTURES[turn % LIVE_USER_FIXTURES.length];
+    const line = framesSeen > 0 ? `${LIVE_VIDEO_REMARK} ${lines[turn % lines.length]}` : lines[turn % lines.length];
+    framesSeen = 0;
+    const voice = fixtureVoice(voiceSeconds, 180 + (turn % 3) * 40);
+    const lookUp = turn === 0 && canSearch;
+    turn++;
+    onTranscript('user', said);
+
+    const speak = (text: string) => setTimeout(() => {
+      if (closed) return;
+      speakingUntil = Date.now() + voiceSeconds * 1000;
+      onTranscript('critic', text);
+      onAudio(voice);
+      onTurnComplete();
+    }, LATENCY_MS);
+
+    if (!lookUp) {
+      speak(line);
+      return;
+    }
+    const id = `mock-call-${turn}`;
+    pendingCalls.set(id, response => speak(typeof response.total === 'number'
+      ? `The archive has ${response.total} ${response.total === 1 ? 'post' : 'posts'} on ${LIVE_TOOL_QUERY}. ${line}`
+      : `The archive would not open. ${line}`));
+    setTimeout(() => !closed && onToolCall([{ id, name: 'search_posts', args: { query: LIVE_TOOL_QUERY } }]), LATENCY_MS);
+  };
+
+  return {
+    sendAudio: (audio: Blob) => {
+      if (closed || !audio.data) return;
+      received += Math.floor(audio.data.length * 3 / 4);
+      if (!pushToTalk && received >= bytesPerReply) reply();
+    },
+    sendVideo: (frame) => {
+      if (!closed && frame.data) framesSeen++;
+    },
+    startActivity: () => {
+      if (closed) return;
+      received = 0;
+      if (Date.now() < speakingUntil) {
+        speakingUntil = 0;
+        onInterrupted();
+      }
+    },
+    endActivity: () => {
+      if (!closed && received > 0) reply();
+    },
+    sendToolResponses: (responses) => {
+      for (const { id, response } of responses) {
+        pendingCalls.get(id)?.(response);
+        pendingCalls.delete(id);
+      }
+    },
+    close: () => {
+      if (closed) return;
+      closed = true;
+      onClose();
+    },
+  };
+};
+
+export const mockProvider: AIProvider = {
+  name: 'mock',
+  capabilities: new Set(['text', 'audio', 'imageGenerate', 'imageEdit', 'video', 'live']),
+  analyzeLink: async (url) => {
+    await delay(LATENCY_MS);
+    const fixture = LINK_FIXTURES[hash(url) % LINK_FIXTURES.length];
+    const link = parseMusicLink(url);
+    // YouTube links are "watched"; anything else goes through search like the real provider
+    return link?.platform === 'youtube'
+      ? { ...fixture, sources: [], mode: 'video', highlights: VIDEO_HIGHLIGHT_FIXTURES, link }
+      : { ...fixture, mode: 'search', highlights: [], link };
+  },
+  optimizePostMetadata: async (title, content) => {
+    await delay(LATENCY_MS);
+    const plain = content.replace(/[#*_>`\[\]()-]/g, '').replace(/\s+/g, ' ').trim();
+    return {
+      title: clamp(`${title.trim()} | Senhor Gótico Review`, 120),
+      metaDescription: clamp(plain.length >= 20 ? plain : `${plain} - a Senhor Gótico review.`, 160),
+    };
+  },
+  writeCoverPrompt: async ({ title, genre }) => {
+    await delay(LATENCY_MS);
+    return `A lone figure beneath a pale moon, evoking "${title.trim() || 'an untitled post'}". ${COVER_STYLES[genre]}.`;
+  },
+  generateImages: async (request) => {
+    await delay(LATENCY_MS);
+    return Array.from({ length: request.count }, (_, index) => fixtureImage(request, index));
+  },
+  // Quotes the critic's first line, so the draft visibly comes from the transcript
+  draftFromTranscript: async (transcript) => {
+    await delay(LATENCY_MS);
+    const critic = transcript.split('\n').find(line => line.includes('Critic:'));
+    const quote = critic ? critic.slice(critic.indexOf('Critic:') + 7).trim() : LIVE_FIXTURES[0];
+    return {
+      title: 'Notes From a Debate With the Critic',
+      metaDescription: 'A Senhor Gótico argument, settled in real time: what the critic said and why it stung.',
+      content: `## The critic speaks\n\n> ${quote}\n\nSome debates end in agreement. This one ended in **a better playlist**.`,
+    };
+  },
+  critiqueAudio: async (clip) => {
+    await delay(LATENCY_MS);
+    return fixtureCritique(clip);
+  },
+  // Returns the source image untouched
+  editImage: async (imageBase64) => {
+    await delay(LATENCY_MS);
+    return imageBase64;
+  },
+  startVideo,
+  pollVideo,
+  fetchVideo: (operation, index) => fixtureVideo(videoSources.get(operation), parseOperation(operation).portrait, index),
+  connectLive,
+};
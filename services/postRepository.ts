@@ -0,0 +1,129 @@
+import { BlogPost, Genre } from '../types';
+import { openDatabase, POSTS_STORE, requestToPromise, transactionDone } from './db';
+import { getMediaUrl, importMediaUrl } from './mediaLibrary';
+import { migratePost, needsMigration, POST_SCHEMA_VERSION, StoredPost } from './postSchema';
+
+// --- Post Repository ---
+// Persistent CRUD for published posts, backed by IndexedDB.
+
+export interface PostQuery {
+  genre?: Genre;
+  tag?: string;
+  from?: Date;
+  to?: Date;
+}
+
+export type NewPost = Omit<BlogPost, 'createdAt' | 'updatedAt'>;
+
+const toStored = async (post: BlogPost): Promise<StoredPost> => {
+  const record: StoredPost = { ...post, schemaVersion: POST_SCHEMA_VERSION };
+
+  // Media given only as a page-local URL goes into the library first
+  if (!record.mediaId && record.mediaUrl && /^(blob|data):/.test(record.mediaUrl)) {
+    const asset = await importMediaUrl(record.mediaUrl, { source: 'import' });
+    record.mediaId = asset.id;
+  }
+  // The URL of a library asset is resolved on read
+  if (record.mediaId) delete record.mediaUrl;
+  return record;
+};
+
+const fromStored = async (record: StoredPost): Promise<BlogPost> => {
+  const { schemaVersion: _, ...post } = record;
+  if (post.mediaId) {
+    post.mediaUrl = await getMediaUrl(post.mediaId);
+  }
+  return post;
+};
+
+const putRecord = async (record: StoredPost) => {
+  const db = await openDatabase();
+  const tx = db.transaction(POSTS_STORE, 'readwrite');
+  tx.objectStore(POSTS_STORE).put(record);
+  await transactionDone(tx);
+};
+
+// Brings outdated records up to the current schema and writes them back
+const upgradeRecords = async (records: any[]): Promise<StoredPost[]> => {
+  const upgraded: StoredPost[] = [];
+  for (const record of records) {
+    if (needsMigration(record)) {
+      const migrated = await migratePost(record);
+      await putRecord(migrated);
+      upgraded.push(migrated);
+    } else {
+      upgraded.push(record);
+    }
+  }
+  return upgraded;
+};
+
+export const createPost = async (post: NewPost): Promise<BlogPost> => {
+  const now = new Date().toISOString();
+  const record = await toStored({ ...post, createdAt: now, updatedAt: now });
+  await putRecord(record);
+  return fromStored(record);
+};
+
+export const getPost = async (id: string): Promise<BlogPost | undefined> => {
+  const db = await openDatabase();
+  const record = await requestToPromise(db.transaction(POSTS_STORE).objectStore(POSTS_STORE).get(id));
+  if (!record) return undefined;
+  const [current] = await upgradeRecords([record]);
+  return fromStored(current);
+};
+
+export const updatePost = async (post: BlogPost): Promise<BlogPost> => {
+  const existing = await getPost(post.id);
+  if (!existing) {
+    throw new Error(`Post ${post.id} does not exist`);
+  }
+
+  const record = await toStored({
+    ...post,
+    createdAt: existing.createdAt,
+    updatedAt: new Date().toISOString(),
+  });
+  await putRecord(record);
+  return fromStored(record);
+};
+
+export const deletePost = async (id: string): Promise<void> => {
+  const db = await openDatabase();
+  const tx = db.transaction(POSTS_STORE, 'readwrite');
+  tx.objectStore(POSTS_STORE).delete(id);
+  await transactionDone(tx);
+};
+
+// Newest first. Uses the most selective index available, then filters the rest in memory.
+export const listPosts = async (query: PostQuery = {}): Promise<BlogPost[]> => {
+  const db = await openDatabase();
+  const store = db.transaction(POSTS_STORE).objectStore(POSTS_STORE);
+
+  let request: IDBRequest<any[]>;
+  if (query.tag) {
+    request = store.index('tags').getAll(query.tag);
+  } else if (query.genre) {
+    request = store.index('genre').getAll(query.genre);
+  } else if (query.from || query.to) {
+    const lower = query.from?.toISOString();
+    const upper = query.to?.toISOString();
+    const range = lower && upper
+      ? IDBKeyRange.bound(lower, upper)
+      : lower ? IDBKeyRange.lowerBound(lower) : IDBKeyRange.upperBound(upper!);
+    request = store.index('createdAt').getAll(range);
+  } else {
+    request = store.getAll();
+  }
+
+  const records = await upgradeRecords(await requestToPromise(request));
+  const from = query.from?.toISOString();
+  const to = query.to?.toISOString();
+
+  return Promise.all(records
+    .filter(post => !query.genre || post.genre === query.genre)
+    .filter(post => !query.tag || post.tags.includes(query.tag))
+    .filter(post => (!from || post.createdAt >= from) && (!to || post.createdAt <= to))
+    .sort((a, b) => b.createdAt.localeCompare(a.createdAt))
+    .map(fromStored));
+};
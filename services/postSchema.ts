@@ -0,0 +1,83 @@
+import { BlogPost } from '../types';
+import { parseMusicLink } from './linkResolver';
+import { importMediaUrl, saveMedia } from './mediaLibrary';
+
+// --- Stored Post Schema ---
+// Every record in the posts store carries the schema version it was written with.
+// When BlogPost changes shape, bump POST_SCHEMA_VERSION and register a migration
+// keyed by the version it upgrades *from*. Records are migrated lazily on read.
+
+export const POST_SCHEMA_VERSION = 5;
+
+export type StoredPost = BlogPost & {
+  schemaVersion: number;
+};
+
+type PostMigration = (record: any) => any | Promise<any>;
+
+const POST_MIGRATIONS: Record<number, PostMigration> = {
+  // v0: records without a version (hand-imported or pre-repository posts)
+  0: (record) => {
+    const idTime = Number(record.id);
+    const created = record.createdAt || new Date(Number.isFinite(idTime) && idTime > 0 ? idTime : Date.now()).toISOString();
+    return {
+      ...record,
+      tags: Array.isArray(record.tags) ? record.tags : [],
+      createdAt: created,
+      updatedAt: record.updatedAt || created,
+    };
+  },
+  // v1 -> v2: posts gained a publication status; everything stored so far was live
+  1: (record) => ({ ...record, status: record.status || 'published' }),
+  // v2 -> v3: bodies became Markdown; older posts keep rendering as plain text
+  2: (record) => ({ ...record, contentFormat: record.contentFormat || 'text' }),
+  // v3 -> v4: media moved into the media library; posts keep only its id.
+  // Inline blobs and data: URLs are imported, dead blob: URLs are dropped.
+  3: async (record) => {
+    const { mediaBlob, mediaUrl, ...rest } = record;
+    if (mediaBlob) {
+      const asset = await saveMedia(mediaBlob, { source: 'import' });
+      return { ...rest, mediaId: asset.id };
+    }
+    if (typeof mediaUrl === 'string' && mediaUrl.startsWith('data:')) {
+      const asset = await importMediaUrl(mediaUrl, { source: 'import' });
+      return { ...rest, mediaId: asset.id };
+    }
+    return typeof mediaUrl === 'string' && !mediaUrl.startsWith('blob:') ? { ...rest, mediaUrl } : rest;
+  },
+  // v4 -> v5: the single YouTube link became a list of links on any platform.
+  // The never-used YOUTUBE media type goes with it. The old analyzer took any
+  // link, so one no platform parser accepts is kept untyped rather than
+  // passed off as YouTube.
+  4: (record) => {
+    const { youtubeUrl, ...rest } = record;
+    const url = typeof youtubeUrl === 'string' ? youtubeUrl.trim() : '';
+    const link = url ? parseMusicLink(url) : null;
+    return {
+      ...rest,
+      sourceLinks: link ? [link] : [],
+      ...(url && !link ? { legacyLinkUrl: url } : {}),
+      mediaType: rest.mediaType === 'YOUTUBE' ? undefined : rest.mediaType,
+    };
+  },
+};
+
+export const needsMigration = (record: { schemaVersion?: number }) =>
+  (record.schemaVersion ?? 0) < POST_SCHEMA_VERSION;
+
+export const migratePost = async (record: any): Promise<StoredPost> => {
+  let current = record;
+  let version: number = record.schemaVersion ?? 0;
+
+  while (version < POST_SCHEMA_VERSION) {
+    const migration = POST_MIGRATIONS[version];
+    if (!migration) {
+      throw new Error(`No migration registered for post schema v${version}`);
+    }
+    current = await migration(current);
+    version += 1;
+    current = { ...current, schemaVersion: version };
+  }
+
+  return current as StoredPost;
+};
@@ -0,0 +1,88 @@
+import { pcmToWav } from './audioUtils';
+
+// --- Live Session Recorder ---
+// Records both sides of a Live session onto one timeline at the critic's 24 kHz.
+// The mic (16 kHz) is resampled on the way in. Each side has its own track so
+// critic audio that was cut off by a barge-in can be erased without touching
+// the user's voice; the tracks are mixed when recording stops.
+
+export const RECORDING_SAMPLE_RATE = 24000;
+
+// Grows in whole seconds so appends rarely reallocate
+class Track {
+  data = new Float32Array(RECORDING_SAMPLE_RATE * 60);
+  length = 0;
+
+  write(samples: Float32Array, offset: number) {
+    const end = offset + samples.length;
+    if (end > this.data.length) {
+      const grown = new Float32Array(Math.max(end, this.data.length * 2));
+      grown.set(this.data);
+      this.data = grown;
+    }
+    this.data.set(samples, offset);
+    this.length = Math.max(this.length, end);
+  }
+
+  clearFrom(offset: number) {
+    if (offset >= this.length) return;
+    this.data.fill(0, offset, this.length);
+    this.length = offset;
+  }
+}
+
+const resample = (samples: Float32Array, fromRate: number, toRate: number): Float32Array => {
+  if (fromRate === toRate) return samples;
+  const output = new Float32Array(Math.round(samples.length * toRate / fromRate));
+  const step = fromRate / toRate;
+  for (let i = 0; i < output.length; i++) {
+    const position = i * step;
+    const index = Math.floor(position);
+    const a = samples[index] ?? 0;
+    const b = samples[index + 1] ?? a;
+    output[i] = a + (b - a) * (position - index);
+  }
+  return output;
+};
+
+export interface SessionRecording {
+  wav: Blob;
+  duration: number; // seconds
+}
+
+export interface SessionRecorder {
+  // `at` is the time on the session clock (seconds) where the audio starts
+  addInput: (samples: Int16Array, sampleRate: number, at: number) => void;
+  addOutput: (samples: Float32Array, at: number) => void;
+  // Drops critic audio from `at` on, e.g. playback flushed by an interruption
+  cutOutput: (at: number) => void;
+  finish: () => SessionRecording;
+}
+
+// `origin` is the session clock time recording starts at
+export const createSessionRecorder = (origin: number): SessionRecorder => {
+  const input = new Track();
+  const output = new Track();
+  const offsetOf = (at: number) => Math.max(0, Math.round((at - origin) * RECORDING_SAMPLE_RATE));
+
+  return {
+    addInput: (samples, sampleRate, at) => {
+      const floats = new Float32Array(samples.length);
+      for (let i = 0; i < samples.length; i++) floats[i] = samples[i] / 32768;
+      input.write(resample(floats, sampleRate, RECORDING_SAMPLE_RATE), offsetOf(at));
+    },
+    addOutput: (samples, at) => output.write(samples, offsetOf(at)),
+    cutOutput: (at) => output.clearFrom(offsetOf(at)),
+    finish: () => {
+      const length = Math.max(input.length, output.length);
+      const mix = new Float32Array(length);
+      for (let i = 0; i < length; i++) {
+        mix[i] = Math.max(-1, Math.min(1, (input.data[i] ?? 0) + (output.data[i] ?? 0)));
+      }
+      return {
+        wav: new Blob([pcmToWav(mix, RECORDING_SAMPLE_RATE)], { type: 'audio/wav' }),
+        duration: length / RECORDING_SAMPLE_RATE,
+      };
+    },
+  };
+};
@@ -0,0 +1,405 @@
+import { BlogPost, Genre, GENRES, MediaType } from '../types';
+import { buildAtom, buildJsonFeed, buildRss, FeedEntry } from './feeds';
+import { escapeHtml } from './html';
+import { describeLink, embedHeight, MUSIC_PLATFORMS } from './linkResolver';
+import { renderMarkdown, renderPlainText } from './markdown';
+import { createZip, ZipEntry } from './zip';
+
+// --- Static Site Export ---
+// Turns the published posts into a self-contained static site packed as a zip.
+// Links between pages are relative so the site works from any sub-path;
+// canonical/Open Graph/sitemap URLs are absolute and built from `siteUrl`.
+
+export interface SiteOptions {
+  siteUrl: string;
+  title: string;
+  description: string;
+}
+
+interface ExportedMedia {
+  path: string;
+  mimeType: string;
+  bytes: Uint8Array;
+}
+
+// A set of RSS/Atom/JSON feeds sharing one base path, e.g. "feeds/genre/ebm"
+interface FeedScope {
+  base: string;
+  title: string;
+}
+
+interface PageInfo {
+  post: BlogPost;
+  slug: string;
+  media: ExportedMedia | null;
+}
+
+const MIME_EXTENSIONS: Record<string, string> = {
+  'image/png': 'png',
+  'image/jpeg': 'jpg',
+  'image/webp': 'webp',
+  'image/gif': 'gif',
+  'video/mp4': 'mp4',
+  'video/webm': 'webm',
+  'audio/wav': 'wav',
+};
+
+const DEFAULT_EXTENSIONS: Partial<Record<MediaType, string>> = {
+  [MediaType.VIDEO]: 'mp4',
+  [MediaType.AUDIO]: 'wav',
+};
+
+export const slugify = (value: string) =>
+  value
+    .normalize('NFKD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, '-')
+    .replace(/^-+|-+$/g, '') || 'post';
+
+const genrePath = (genre: Genre) => `genre/${slugify(genre)}.html`;
+const postPath = (slug: string) => `posts/${slug}.html`;
+
+const FEED_FORMATS = [
+  { suffix: '.rss.xml', type: 'application/rss+xml', label: 'RSS' },
+  { suffix: '.atom.xml', type: 'application/atom+xml', label: 'Atom' },
+  { suffix: '.json', type: 'application/feed+json', label: 'JSON Feed' },
+];
+
+const readMedia = async (url: string): Promise<{ mimeType: string, bytes: Uint8Array }> => {
+  const dataMatch = url.match(/^data:([^;,]+)(;base64)?,(.*)$/s);
+  if (dataMatch) {
+    const [, mimeType, isBase64, payload] = dataMatch;
+    if (!isBase64) {
+      return { mimeType, bytes: new TextEncoder().encode(decodeURIComponent(payload)) };
+    }
+    const binary = atob(payload);
+    const bytes = new Uint8Array(binary.length);
+    for (let i = 0; i < binary.length; i++) bytes[i] = binary.charCodeAt(i);
+    return { mimeType, bytes };
+  }
+
+  const response = await fetch(url);
+  const blob = await response.blob();
+  return { mimeType: blob.type || 'application/octet-stream', bytes: new Uint8Array(await blob.arrayBuffer()) };
+};
+
+const exportMedia = async (post: BlogPost, slug: string): Promise<ExportedMedia | null> => {
+  if (!post.mediaUrl) return null;
+  try {
+    const { mimeType, bytes } = await readMedia(post.mediaUrl);
+    const ext = MIME_EXTENSIONS[mimeType] || (post.mediaType && DEFAULT_EXTENSIONS[post.mediaType]) || 'png';
+    return { path: `media/${slug}.${ext}`, mimeType, bytes };
+  } catch (e) {
+    console.warn(`Skipping media for "${post.title}"`, e);
+    return null;
+  }
+};
+
+const assignSlugs = (posts: BlogPost[]): Map<string, string> => {
+  const used = new Set<string>();
+  const slugs = new Map<string, string>();
+  for (const post of posts) {
+    const base = slugify(post.title);
+    let slug = base;
+    for (let n = 2; used.has(slug); n++) slug = `${base}-${n}`;
+    used.add(slug);
+    slugs.set(post.id, slug);
+  }
+  return slugs;
+};
+
+// A player for every link that has one, then plain links to each platform
+const renderSourceLinks = (post: BlogPost) => {
+  const links = (post.sourceLinks || []).filter(link => /^https:\/\//i.test(link.url));
+  if (!links.length) return '';
+  const players = links.filter(link => link.embedUrl).map(link => {
+    const height = embedHeight(link);
+    return `<iframe src="${escapeHtml(link.embedUrl!)}" title="${escapeHtml(describeLink(link))}"${height ? ` class="player" style="height:${height}px"` : ''} loading="lazy" allow="autoplay; encrypted-media; picture-in-picture" allowfullscreen></iframe>`;
+  });
+  const anchors = links.map(link =>
+    `<a href="${escapeHtml(link.url)}" rel="noopener noreferrer">${MUSIC_PLATFORMS[link.platform].action}</a>`);
+  return [...players, `<p class="meta">${anchors.join(' · ')}</p>`].join('\n');
+};
+
+// --- Templates ---
+
+const STYLES = `
+*{box-sizing:border-box}
+body{margin:0;background:#121212;color:#fff;font-family:Inter,system-ui,sans-serif;line-height:1.6}
+a{color:#ccff00}
+header,main,footer{max-width:56rem;margin:0 auto;padding:1.5rem 1rem}
+header{border-bottom:1px solid #333}
+header a{color:#fff;text-decoration:none;font-weight:900;letter-spacing:-.05em;font-size:1.5rem}
+nav{display:flex;flex-wrap:wrap;gap:.5rem;margin-top:1rem}
+nav a{border:1px solid #444;border-radius:999px;padding:.1rem .8rem;font-size:.85rem;color:#aaa;text-decoration:none}
+.card{background:#252525;border:1px solid #333;border-radius:.75rem;margin-bottom:1.5rem;overflow:hidden}
+.card img,.card video,.card iframe{display:block;width:100%;max-height:24rem;object-fit:cover;border:0;background:#000}
+.card audio{display:block;width:100%}
+.card iframe{aspect-ratio:16/9;max-height:none}
+.card iframe.player{aspect-ratio:auto;margin-bottom:.5rem}
+.card .body{padding:1.5rem}
+.meta{font-family:'Fira Code',monospace;font-size:.7rem;text-transform:uppercase;color:#aaa}
+.genre{color:#ccff00;font-weight:bold}
+.description{color:#888;font-style:italic;border-left:2px solid #444;padding-left:.75rem}
+.content{font-family:'Fira Code',monospace;color:#ddd}
+.content blockquote{margin:1rem 0;padding-left:1rem;border-left:3px solid #ccff00;color:#aaa;font-style:italic}
+.content pre{background:#1a1a1a;padding:1rem;border-radius:.5rem;overflow-x:auto}
+.content code{background:#1a1a1a;padding:0 .25rem;border-radius:.25rem}
+.content img{max-width:100%}
+.tags span{color:#00f3ff;margin-right:.5rem}
+.sources{font-size:.8rem;border-top:1px solid #333;padding-top:1rem}
+footer{color:#666;font-size:.75rem;border-top:1px solid #333}
+footer a{color:#888;margin-right:.75rem}
+`.trim();
+
+const renderContent = (post: BlogPost) =>
+  post.contentFormat === 'markdown' ? renderMarkdown(post.content) : renderPlainText(post.content);
+
+interface LayoutParams {
+  options: SiteOptions;
+  root: string;
+  path: string;
+  title: string;
+  description: string;
+  head?: string;
+  body: string;
+  feeds: FeedScope[];
+}
+
+const feedHead = (feeds: FeedScope[], options: SiteOptions) =>
+  feeds
+    .flatMap(scope => FEED_FORMATS.map(f =>
+      `<link rel="alternate" type="${f.type}" title="${escapeHtml(`${scope.title} (${f.label})`)}" href="${escapeHtml(`${options.siteUrl}/${scope.base}${f.suffix}`)}">`))
+    .join('\n');
+
+const feedFooter = (feeds: FeedScope[], root: string) =>
+  feeds
+    .map(scope => `<p>Subscribe to ${escapeHtml(scope.title)}: ${FEED_FORMATS
+      .map(f => `<a href="${root}${scope.base}${f.suffix}">${f.label}</a>`)
+      .join('')}</p>`)
+    .join('\n');
+
+const layout = ({ options, root, path, title, description, head = '', body, feeds }: LayoutParams) => `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="UTF-8">
+<meta name="viewport" content="width=device-width, initial-scale=1.0">
+<title>${escapeHtml(title)}</title>
+<meta name="description" content="${escapeHtml(description)}">
+<link rel="canonical" href="${escapeHtml(`${options.siteUrl}/${path}`)}">
+<link rel="stylesheet" href="${root}styles.css">
+${feedHead(feeds, options)}
+${head}
+</head>
+<body>
+<header>
+<a href="${root}index.html">${escapeHtml(options.title)}</a>
+<nav>${GENRES.map(g => `<a href="${root}${genrePath(g)}">${escapeHtml(g)}</a>`).join('')}</nav>
+</header>
+<main>
+${body}
+</main>
+<footer>
+<p>${escapeHtml(options.description)}</p>
+${feedFooter(feeds, root)}
+</footer>
+</body>
+</html>
+`;
+
+const renderMediaTag = (page: PageInfo, root: string) => {
+  if (!page.media) return '';
+  const src = `${root}${page.media.path}`;
+  switch (page.post.mediaType) {
+    case MediaType.VIDEO: return `<video src="${src}" controls playsinline></video>`;
+    case MediaType.AUDIO: return `<audio src="${src}" controls preload="none"></audio>`;
+    default: return `<img src="${src}" alt="${escapeHtml(page.post.title)}">`;
+  }
+};
+
+const renderPostMeta = (post: BlogPost, root: string) =>
+  `<p class="meta"><time datetime="${escapeHtml(post.createdAt)}">${escapeHtml(post.date)}</time> · <a class="genre" href="${root}${genrePath(post.genre)}">${escapeHtml(post.genre)}</a></p>`;
+
+const renderPostPage = (page: PageInfo, options: SiteOptions, feeds: FeedScope[]) => {
+  const { post } = page;
+  const root = '../';
+  const url = `${options.siteUrl}/${postPath(page.slug)}`;
+  const description = post.metaDescription || post.content.replace(/\s+/g, ' ').trim().slice(0, 160);
+
+  const og = [
+    ['og:type', 'article'],
+    ['og:site_name', options.title],
+    ['og:title', post.title],
+    ['og:description', description],
+    ['og:url', url],
+    ['article:published_time', post.createdAt],
+    ['article:modified_time', post.updatedAt],
+    ['article:section', post.genre],
+    ...post.tags.map(tag => ['article:tag', tag]),
+  ];
+  if (page.media) {
+    const mediaUrl = `${options.siteUrl}/${page.media.path}`;
+    if (post.mediaType === MediaType.VIDEO) {
+      og.push(['og:video', mediaUrl], ['og:video:type', page.media.mimeType]);
+    } else if (post.mediaType === MediaType.AUDIO) {
+      og.push(['og:audio', mediaUrl], ['og:audio:type', page.media.mimeType]);
+    } else {
+      og.push(['og:image', mediaUrl], ['og:image:alt', post.title]);
+    }
+  }
+
+  const head = [
+    ...og.map(([property, content]) => `<meta property="${property}" content="${escapeHtml(content)}">`),
+    `<meta name="twitter:card" content="${page.media && post.mediaType !== MediaType.VIDEO && post.mediaType !== MediaType.AUDIO ? 'summary_large_image' : 'summary'}">`,
+  ].join('\n');
+
+  const sources = post.groundingSources?.length
+    ? `<div class="sources"><p class="meta">Sources</p><ul>${post.groundingSources
+        .filter(s => /^https?:\/\//i.test(s.uri))
+        .map(s => `<li><a href="${escapeHtml(s.uri)}" rel="noopener noreferrer">${escapeHtml(s.title || s.uri)}</a></li>`)
+        .join('')}</ul></div>`
+    : '';
+
+  const body = `<article class="card">
+${renderMediaTag(page, root)}
+<div class="body">
+${renderPostMeta(post, root)}
+<h1>${escapeHtml(post.title)}</h1>
+${post.metaDescription ? `<p class="description">${escapeHtml(post.metaDescription)}</p>` : ''}
+<div class="content">
+${renderContent(post)}
+</div>
+${renderSourceLinks(post)}
+<p class="tags">${post.tags.map(tag => `<span>#${escapeHtml(tag)}</span>`).join(' ')}</p>
+${sources}
+</div>
+</article>`;
+
+  return layout({ options, root, path: postPath(page.slug), title: `${post.title} | ${options.title}`, description, head, body, feeds });
+};
+
+const renderListPage = (pages: PageInfo[], options: SiteOptions, params: { path: string, root: string, heading: string, description: string, feeds: FeedScope[] }) => {
+  const items = pages.length === 0
+    ? '<p class="meta">No entries yet.</p>'
+    : pages.map(page => `<article class="card">
+${renderMediaTag(page, params.root)}
+<div class="body">
+${renderPostMeta(page.post, params.root)}
+<h2><a href="${params.root}${postPath(page.slug)}">${escapeHtml(page.post.title)}</a></h2>
+${page.post.metaDescription ? `<p class="description">${escapeHtml(page.post.metaDescription)}</p>` : ''}
+</div>
+</article>`).join('\n');
+
+  return layout({
+    options,
+    root: params.root,
+    path: params.path,
+    title: params.heading === options.title ? options.title : `${params.heading} | ${options.title}`,
+    description: params.description,
+    body: `<h1>${escapeHtml(params.heading)}</h1>\n${items}`,
+    feeds: params.feeds,
+  });
+};
+
+const renderSitemap = (urls: { loc: string, lastmod?: string }[]) => `<?xml version="1.0" encoding="UTF-8"?>
+<urlset xmlns="http://www.sitemaps.org/schemas/sitemap/0.9">
+${urls.map(u => `<url><loc>${escapeHtml(u.loc)}</loc>${u.lastmod ? `<lastmod>${u.lastmod}</lastmod>` : ''}</url>`).join('\n')}
+</urlset>
+`;
+
+const renderFeeds = (scope: FeedScope, pages: PageInfo[], options: SiteOptions, pagePath: string, description: string): ZipEntry[] => {
+  const entries: FeedEntry[] = pages.map(page => ({
+    post: page.post,
+    url: `${options.siteUrl}/${postPath(page.slug)}`,
+    contentHtml: renderContent(page.post),
+    enclosure: page.media
+      ? { url: `${options.siteUrl}/${page.media.path}`, type: page.media.mimeType, length: page.media.bytes.length }
+      : undefined,
+  }));
+  const feedUrl = (suffix: string) => `${options.siteUrl}/${scope.base}${suffix}`;
+  const meta = { title: scope.title, description, siteUrl: options.siteUrl, pageUrl: `${options.siteUrl}/${pagePath}` };
+
+  return [
+    { path: `${scope.base}.rss.xml`, data: buildRss(entries, { ...meta, feedUrl: feedUrl('.rss.xml') }) },
+    { path: `${scope.base}.atom.xml`, data: buildAtom(entries, { ...meta, feedUrl: feedUrl('.atom.xml') }) },
+    { path: `${scope.base}.json`, data: buildJsonFeed(entries, { ...meta, feedUrl: feedUrl('.json') }) },
+  ];
+};
+
+// --- Build ---
+
+export const buildSite = async (posts: BlogPost[], rawOptions: SiteOptions): Promise<Blob> => {
+  const options = { ...rawOptions, siteUrl: rawOptions.siteUrl.trim().replace(/\/+$/, '') };
+  const published = posts
+    .filter(post => post.status === 'published')
+    .sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+
+  const slugs = assignSlugs(published);
+  const pages: PageInfo[] = [];
+  for (const post of published) {
+    const slug = slugs.get(post.id)!;
+    pages.push({ post, slug, media: await exportMedia(post, slug) });
+  }
+
+  const siteFeed: FeedScope = { base: 'feeds/all', title: options.title };
+  const files: ZipEntry[] = [
+    { path: 'styles.css', data: STYLES },
+    {
+      path: 'index.html',
+      data: renderListPage(pages, options, { path: 'index.html', root: '', heading: options.title, description: options.description, feeds: [siteFeed] }),
+    },
+    ...renderFeeds(siteFeed, pages, options, 'index.html', options.description),
+  ];
+
+  for (const genre of GENRES) {
+    const genrePages = pages.filter(p => p.post.genre === genre);
+    const genreFeed: FeedScope = { base: `feeds/genre/${slugify(genre)}`, title: `${options.title}: ${genre}` };
+    const description = `${genre} reviews and features from ${options.title}.`;
+    files.push({
+      path: genrePath(genre),
+      data: renderListPage(genrePages, options, {
+        path: genrePath(genre),
+        root: '../',
+        heading: genre,
+        description,
+        feeds: [genreFeed, siteFeed],
+      }),
+    });
+    files.push(...renderFeeds(genreFeed, genrePages, options, genrePath(genre), description));
+  }
+
+  // Tags differing only in case/punctuation share a slug, and therefore a feed
+  const tagGroups = new Map<string, { label: string, pages: PageInfo[] }>();
+  for (const page of pages) {
+    for (const tag of page.post.tags) {
+      const slug = slugify(tag);
+      const group = tagGroups.get(slug) || { label: tag, pages: [] };
+      if (!group.pages.includes(page)) group.pages.push(page);
+      tagGroups.set(slug, group);
+    }
+  }
+  for (const [slug, group] of tagGroups) {
+    const tagFeed: FeedScope = { base: `feeds/tag/${slug}`, title: `${options.title}: #${group.label}` };
+    files.push(...renderFeeds(tagFeed, group.pages, options, 'index.html', `Posts tagged #${group.label} on ${options.title}.`));
+  }
+
+  for (const page of pages) {
+    const genreFeed: FeedScope = { base: `feeds/genre/${slugify(page.post.genre)}`, title: `${options.title}: ${page.post.genre}` };
+    files.push({ path: postPath(page.slug), data: renderPostPage(page, options, [siteFeed, genreFeed]), modified: new Date(page.post.updatedAt) });
+    if (page.media) files.push({ path: page.media.path, data: page.media.bytes });
+  }
+
+  const lastUpdate = published.reduce<string | undefined>((latest, p) => (!latest || p.updatedAt > latest ? p.updatedAt : latest), undefined);
+  files.push({
+    path: 'sitemap.xml',
+    data: renderSitemap([
+      { loc: `${options.siteUrl}/index.html`, lastmod: lastUpdate },
+      ...GENRES.map(g => ({ loc: `${options.siteUrl}/${genrePath(g)}` })),
+      ...pages.map(p => ({ loc: `${options.siteUrl}/${postPath(p.slug)}`, lastmod: p.post.updatedAt })),
+    ]),
+  });
+  files.push({ path: 'robots.txt', data: `User-agent: *\nAllow: /\n\nSitemap: ${options.siteUrl}/sitemap.xml\n` });
+
+  return createZip(files);
+};
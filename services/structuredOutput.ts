@@ -0,0 +1,212 @@
+import { Schema, Type } from '@google/genai';
+
+// --- Structured Output ---
+// Typed specs that produce both the Gemini response schema and a runtime
+// validator, plus a generate loop that feeds validation problems back to the
+// model as a repair prompt before giving up with a StructuredOutputError.
+
+export class StructuredOutputError extends Error {
+  constructor(
+    message: string,
+    public readonly issues: string[],
+    public readonly rawText: string,
+    public readonly attempts: number,
+  ) {
+    super(message);
+    this.name = 'StructuredOutputError';
+  }
+}
+
+export interface Spec<T> {
+  schema: Schema;
+  // Pushes human-readable problems into `issues`; returns the typed value when there are none
+  parse: (value: unknown, path: string, issues: string[]) => T;
+}
+
+export type Infer<S> = S extends Spec<infer T> ? T : never;
+
+interface StringOptions {
+  description?: string;
+  minLength?: number;
+  maxLength?: number;
+  // Extra check returning a problem description, or null when the value is fine
+  check?: (value: string) => string | null;
+}
+
+const string = (options: StringOptions = {}): Spec<string> => ({
+  schema: { type: Type.STRING, description: options.description },
+  parse: (value, path, issues) => {
+    if (typeof value !== 'string') {
+      issues.push(`${path} must be a string`);
+      return '';
+    }
+    const trimmed = value.trim();
+    if (options.minLength !== undefined && trimmed.length < options.minLength) {
+      issues.push(`${path} must be at least ${options.minLength} characters`);
+    }
+    if (options.maxLength !== undefined && trimmed.length > options.maxLength) {
+      issues.push(`${path} must be at most ${options.maxLength} characters (got ${trimmed.length})`);
+    }
+    const problem = options.check?.(trimmed);
+    if (problem) issues.push(`${path} ${problem}`);
+    return trimmed;
+  },
+});
+
+const number = (options: { description?: string, min?: number, max?: number } = {}): Spec<number> => ({
+  schema: { type: Type.NUMBER, description: options.description },
+  parse: (value, path, issues) => {
+    if (typeof value !== 'number' || Number.isNaN(value)) {
+      issues.push(`${path} must be a number`);
+      return 0;
+    }
+    if (options.min !== undefined && value < options.min) issues.push(`${path} must be >= ${options.min}`);
+    if (options.max !== undefined && value > options.max) issues.push(`${path} must be <= ${options.max}`);
+    return value;
+  },
+});
+
+const enumOf = <T extends string>(values: readonly T[], description?: string): Spec<T> => ({
+  schema: { type: Type.STRING, enum: [...values], description },
+  parse: (value, path, issues) => {
+    if (typeof value !== 'string' || !values.includes(value as T)) {
+      issues.push(`${path} must be one of: ${values.join(', ')}`);
+      return values[0];
+    }
+    return value as T;
+  },
+});
+
+const array = <T>(item: Spec<T>, options: { description?: string, minItems?: number, maxItems?: number } = {}): Spec<T[]> => ({
+  schema: { type: Type.ARRAY, items: item.schema, description: options.description },
+  parse: (value, path, issues) => {
+    if (!Array.isArray(value)) {
+      issues.push(`${path} must be an array`);
+      return [];
+    }
+    if (options.minItems !== undefined && value.length < options.minItems) {
+      issues.push(`${path} must have at least ${options.minItems} items`);
+    }
+    if (options.maxItems !== undefined && value.length > options.maxItems) {
+      issues.push(`${path} must have at most ${options.maxItems} items`);
+    }
+    return value.map((entry, i) => item.parse(entry, `${path}[${i}]`, issues));
+  },
+});
+
+const object = <S extends Record<string, Spec<any>>>(
+  shape: S,
+  options: { description?: string, optional?: (keyof S)[] } = {},
+): Spec<{ [K in keyof S]: Infer<S[K]> }> => {
+  const keys = Object.keys(shape);
+  const optional = new Set<string>((options.optional || []) as string[]);
+  return {
+    schema: {
+      type: Type.OBJECT,
+      description: options.description,
+      properties: Object.fromEntries(keys.map(key => [key, shape[key].schema])),
+      required: keys.filter(key => !optional.has(key)),
+      propertyOrdering: keys,
+    },
+    parse: (value, path, issues) => {
+      if (typeof value !== 'object' || value === null || Array.isArray(value)) {
+        issues.push(`${path} must be an object`);
+        return {} as any;
+      }
+      const result: Record<string, unknown> = {};
+      for (const key of keys) {
+        const field = (value as Record<string, unknown>)[key];
+        if (field === undefined || field === null) {
+          if (!optional.has(key)) issues.push(`${path}.${key} is required`);
+          continue;
+        }
+        result[key] = shape[key].parse(field, `${path}.${key}`, issues);
+      }
+      return result as any;
+    },
+  };
+};
+
+export const s = { string, number, enumOf, array, object };
+
+// Common check for fields rendered as plain text (titles, descriptions)
+export const noMarkdown = (value: string) =>
+  /(\*\*|__|^#+\s|`|\[[^\]]*\]\()/m.test(value) ? 'must be plain text without Markdown formatting' : null;
+
+export const validate = <T>(spec: Spec<T>, value: unknown): { value: T, issues: string[] } => {
+  const issues: string[] = [];
+  const parsed = spec.parse(value, '$', issues);
+  return { value: parsed, issues };
+};
+
+const extractJson = (text: string): unknown => {
+  const unfenced = text.trim().replace(/^```(?:json)?\s*/i, '').replace(/\s*```$/, '');
+  return JSON.parse(unfenced);
+};
+
+// Gemini schemas use upper-case type names; plain JSON Schema wants lower-case
+export const toJsonSchema = (schema: Schema): Record<string, unknown> => {
+  const json: Record<string, unknown> = {};
+  if (schema.type) json.type = schema.type.toLowerCase();
+  if (schema.description) json.description = schema.description;
+  if (schema.enum) json.enum = schema.enum;
+  if (schema.items) json.items = toJsonSchema(schema.items);
+  if (schema.properties) {
+    json.properties = Object.fromEntries(
+      Object.entries(schema.properties).map(([key, value]) => [key, toJsonSchema(value)]),
+    );
+  }
+  if (schema.required) json.required = schema.required;
+  return json;
+};
+
+export interface ChatTurn {
+  role: 'user' | 'model';
+  text: string;
+}
+
+// Sends the conversation so far to a model in JSON mode and returns the raw reply text
+export type StructuredCompletion = (turns: ChatTurn[], schema: Schema) => Promise<string>;
+
+interface GenerateStructuredParams<T> {
+  prompt: string;
+  spec: Spec<T>;
+  maxAttempts?: number;
+}
+
+export const generateStructured = async <T>(
+  complete: StructuredCompletion,
+  { prompt, spec, maxAttempts = 3 }: GenerateStructuredParams<T>,
+): Promise<T> => {
+  const turns: ChatTurn[] = [{ role: 'user', text: prompt }];
+  let lastText = '';
+  let lastIssues: string[] = [];
+
+  for (let attempt = 1; attempt <= maxAttempts; attempt++) {
+    lastText = await complete(turns, spec.schema);
+    try {
+      const { value, issues } = validate(spec, extractJson(lastText));
+      if (issues.length === 0) return value;
+      lastIssues = issues;
+    } catch (e) {
+      lastIssues = [`response is not valid JSON (${(e as Error).message})`];
+    }
+
+    console.warn(`Structured output attempt ${attempt} invalid`, lastIssues);
+    turns.push(
+      { role: 'model', text: lastText },
+      {
+        role: 'user',
+        text: `Your previous reply did not match the required JSON schema:\n- ${lastIssues.join('\n- ')}\n` +
+          'Reply again with only the corrected JSON object. Keep the content, fix the problems listed.',
+      },
+    );
+  }
+
+  throw new StructuredOutputError(
+    `Model output failed validation after ${maxAttempts} attempts`,
+    lastIssues,
+    lastText,
+    maxAttempts,
+  );
+};
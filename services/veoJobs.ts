@@ -0,0 +1,288 @@
+import { VeoJob } from '../types';
+import { DEFAULT_VIDEO_SETTINGS, getAIProvider, VideoRequest } from './aiProvider';
+import { openDatabase, requestToPromise, transactionDone, VEO_JOBS_STORE } from './db';
+import { getMediaUrl, onMediaChange, saveMedia } from './mediaLibrary';
+
+// --- Veo Job Queue ---
+// Veo renders take minutes and are billed per request, so every job is
+// persisted (prompt, source image, operation name) and polling resumes after a
+// reload. Up to MAX_RUNNING jobs render at once; the rest wait in the queue.
+// Finished takes go into the media library; the job keeps their ids.
+
+const MAX_RUNNING = 2;
+const POLL_INTERVAL_MS = 5000;
+// Consecutive poll errors (e.g. offline) tolerated before a job is marked failed
+const MAX_POLL_FAILURES = 5;
+
+type StoredVeoJob = Omit<VeoJob, 'videoUrls'>;
+
+const jobs = new Map<string, StoredVeoJob>();
+// Object URLs of finished takes, by media id
+const takeUrls = new Map<string, string>();
+const pollFailures = new Map<string, number>();
+// Jobs submitted by this page that are still waiting for an operation name
+const submitting = new Set<string>();
+const listeners = new Set<() => void>();
+
+let snapshot: VeoJob[] = [];
+let loaded: Promise<void> | null = null;
+let pollTimer: ReturnType<typeof setTimeout> | null = null;
+let ticking = false;
+
+// --- Persistence ---
+
+const saveJob = async (job: StoredVeoJob) => {
+  const db = await openDatabase();
+  const tx = db.transaction(VEO_JOBS_STORE, 'readwrite');
+  tx.objectStore(VEO_JOBS_STORE).put(job);
+  await transactionDone(tx);
+};
+
+// Jobs saved before settings, multiple takes and the media library existed
+const normalizeJob = async (record: any): Promise<StoredVeoJob> => {
+  const { result, results, ...job } = record;
+  const legacy: Blob[] = results || (result ? [result] : []);
+  const mediaIds: string[] = job.mediaIds || [];
+  for (const blob of legacy) {
+    mediaIds.push((await saveMedia(blob, { source: 'veo', prompt: job.prompt || undefined })).id);
+  }
+
+  const normalized: StoredVeoJob = {
+    ...job,
+    sourceMimeType: job.sourceMimeType || (job.sourceImage ? 'image/png' : undefined),
+    settings: { ...DEFAULT_VIDEO_SETTINGS, ...job.settings },
+    mediaIds,
+  };
+  if (legacy.length > 0) await saveJob(normalized);
+  return normalized;
+};
+
+const resolveVideoUrls = async (job: StoredVeoJob) => {
+  for (const id of job.mediaIds) {
+    const url = await getMediaUrl(id);
+    if (url) takeUrls.set(id, url);
+  }
+};
+
+const loadJobs = async () => {
+  const db = await openDatabase();
+  const records: StoredVeoJob[] = await requestToPromise(db.transaction(VEO_JOBS_STORE).objectStore(VEO_JOBS_STORE).getAll());
+  for (const record of records) {
+    const job = await normalizeJob(record);
+    await resolveVideoUrls(job);
+    jobs.set(job.id, job);
+  }
+  notify();
+  schedulePoll(0);
+};
+
+const ensureLoaded = () => {
+  if (!loaded) {
+    onMediaChange(({ type, id }) => {
+      if (type === 'deleted' && takeUrls.delete(id)) notify();
+    });
+    loaded = loadJobs().catch(e => {
+      console.error('Could not load Veo jobs', e);
+    });
+  }
+  return loaded;
+};
+
+// --- Subscriptions ---
+
+// Takes deleted from the media library simply disappear from the job
+const toJob = (job: StoredVeoJob): VeoJob => {
+  const mediaIds = job.mediaIds.filter(id => takeUrls.has(id));
+  return { ...job, mediaIds, videoUrls: mediaIds.map(id => takeUrls.get(id)!) };
+};
+
+const notify = () => {
+  snapshot = [...jobs.values()]
+    .sort((a, b) => b.createdAt.localeCompare(a.createdAt))
+    .map(toJob);
+  listeners.forEach(listener => listener());
+};
+
+// Newest first. The array identity only changes when a job changes (for useSyncExternalStore).
+export const getVeoJobs = (): VeoJob[] => snapshot;
+
+export const subscribeVeoJobs = (listener: () => void) => {
+  listeners.add(listener);
+  ensureLoaded();
+  return () => {
+    listeners.delete(listener);
+  };
+};
+
+const updateJob = async (id: string, changes: Partial<StoredVeoJob>) => {
+  const job = jobs.get(id);
+  if (!job) return;
+  const next = { ...job, ...changes };
+  jobs.set(id, next);
+  notify();
+  await saveJob(next);
+};
+
+// --- Queue ---
+
+const formatElapsed = (since: string) => {
+  const seconds = Math.max(0, Math.round((Date.now() - Date.parse(since)) / 1000));
+  return seconds < 60 ? `${seconds}s` : `${Math.floor(seconds / 60)}m ${String(seconds % 60).padStart(2, '0')}s`;
+};
+
+const startJob = async (job: StoredVeoJob) => {
+  const startedAt = new Date().toISOString();
+  submitting.add(job.id);
+  await updateJob(job.id, { status: 'running', progress: 'Submitting to Veo...', startedAt });
+  try {
+    const operation = await getAIProvider().startVideo({
+      prompt: job.prompt,
+      image: job.sourceImage ? { data: job.sourceImage, mimeType: job.sourceMimeType || 'image/png' } : undefined,
+      settings: job.settings,
+    });
+    // Cancelled while the request was in flight: drop the operation
+    if (jobs.get(job.id)?.status !== 'running') return;
+    await updateJob(job.id, { operation, progress: 'Rendering...' });
+  } catch (e) {
+    if (jobs.get(job.id)?.status === 'running') {
+      await updateJob(job.id, { status: 'failed', error: (e as Error).message || 'Could not start generation' });
+    }
+  } finally {
+    submitting.delete(job.id);
+  }
+};
+
+const finishJob = async (job: StoredVeoJob, videoCount: number) => {
+  const results: Blob[] = [];
+  for (let index = 0; index < videoCount; index++) {
+    await updateJob(job.id, { progress: videoCount > 1 ? `Downloading take ${index + 1} of ${videoCount}...` : 'Downloading...' });
+    results.push(await getAIProvider().fetchVideo(job.operation!, index));
+  }
+  if (jobs.get(job.id)?.status !== 'running') return;
+
+  const mediaIds: string[] = [];
+  for (const result of results) {
+    mediaIds.push((await saveMedia(result, { source: 'veo', prompt: job.prompt || undefined })).id);
+  }
+  await resolveVideoUrls({ ...job, mediaIds });
+  await updateJob(job.id, { status: 'done', progress: 'Done', mediaIds, finishedAt: new Date().toISOString() });
+};
+
+const pollJob = async (job: StoredVeoJob) => {
+  try {
+    const status = await getAIProvider().pollVideo(job.operation!);
+    pollFailures.delete(job.id);
+    if (jobs.get(job.id)?.status !== 'running') return;
+
+    if (!status.done) {
+      await updateJob(job.id, { progress: `Rendering... ${formatElapsed(job.startedAt || job.createdAt)}` });
+    } else if (status.error || status.videoCount === 0) {
+      await updateJob(job.id, { status: 'failed', error: status.error || 'No video returned', finishedAt: new Date().toISOString() });
+    } else {
+      await finishJob(job, status.videoCount);
+    }
+  } catch (e) {
+    const failures = (pollFailures.get(job.id) || 0) + 1;
+    pollFailures.set(job.id, failures);
+    console.error(`Polling Veo job ${job.id} failed`, e);
+    if (failures >= MAX_POLL_FAILURES) {
+      pollFailures.delete(job.id);
+      await updateJob(job.id, { status: 'failed', error: (e as Error).message || 'Lost track of the generation' });
+    }
+  }
+};
+
+const tick = async () => {
+  if (ticking) return;
+  ticking = true;
+  try {
+    const all = [...jobs.values()];
+    const running = all.filter(job => job.status === 'running');
+
+    // A job that was submitting when the page closed never got its operation name back
+    for (const job of running.filter(job => !job.operation && !submitting.has(job.id))) {
+      await updateJob(job.id, { status: 'failed', error: 'Interrupted before Veo accepted the job' });
+    }
+
+    await Promise.all(running.filter(job => job.operation).map(pollJob));
+
+    const slots = MAX_RUNNING - [...jobs.values()].filter(job => job.status === 'running').length;
+    const queued = all
+      .filter(job => job.status === 'queued')
+      .sort((a, b) => a.createdAt.localeCompare(b.createdAt))
+      .slice(0, Math.max(0, slots));
+    await Promise.all(queued.map(startJob));
+  } finally {
+    ticking = false;
+  }
+
+  if ([...jobs.values()].some(job => job.status === 'queued' || job.status === 'running')) {
+    schedulePoll(POLL_INTERVAL_MS);
+  }
+};
+
+const schedulePoll = (delay: number) => {
+  if (pollTimer) clearTimeout(pollTimer);
+  pollTimer = setTimeout(() => {
+    pollTimer = null;
+    tick();
+  }, delay);
+};
+
+// --- Public API ---
+
+export const enqueueVeoJob = async (request: VideoRequest): Promise<VeoJob> => {
+  await ensureLoaded();
+  const job: StoredVeoJob = {
+    id: `veo-${Date.now()}-${Math.random().toString(36).slice(2, 8)}`,
+    prompt: request.prompt,
+    sourceImage: request.image?.data,
+    sourceMimeType: request.image?.mimeType,
+    settings: request.settings,
+    status: 'queued',
+    progress: 'Queued',
+    error: null,
+    mediaIds: [],
+    createdAt: new Date().toISOString(),
+  };
+  jobs.set(job.id, job);
+  notify();
+  await saveJob(job);
+  schedulePoll(0);
+  return toJob(job);
+};
+
+// Stops tracking the job. Veo offers no way to abort a render, so an operation
+// that already started may still be billed.
+export const cancelVeoJob = async (id: string) => {
+  const job = jobs.get(id);
+  if (!job || (job.status !== 'queued' && job.status !== 'running')) return;
+  pollFailures.delete(id);
+  await updateJob(id, { status: 'cancelled', progress: 'Cancelled', finishedAt: new Date().toISOString() });
+};
+
+// Puts a failed or cancelled job back in the queue with the same prompt and image
+export const retryVeoJob = async (id: string) => {
+  const job = jobs.get(id);
+  if (!job || (job.status !== 'failed' && job.status !== 'cancelled')) return;
+  await updateJob(id, {
+    status: 'queued',
+    progress: 'Queued',
+    error: null,
+    operation: undefined,
+    startedAt: undefined,
+    finishedAt: undefined,
+  });
+  schedulePoll(0);
+};
+
+export const removeVeoJob = async (id: string) => {
+  await cancelVeoJob(id);
+  // Finished takes stay in the media library
+  jobs.delete(id);
+  notify();
+  const db = await openDatabase();
+  const tx = db.transaction(VEO_JOBS_STORE, 'readwrite');
+  tx.objectStore(VEO_JOBS_STORE).delete(id);
+  await transactionDone(tx);
+};
@@ -1,34 +1,163 @@
 export enum MediaType {
   IMAGE = 'IMAGE',
   VIDEO = 'VIDEO',
-  YOUTUBE = 'YOUTUBE'
+  AUDIO = 'AUDIO'
 }
 
+export type PostStatus = 'published' | 'draft';
+
+export type ContentFormat = 'markdown' | 'text';
+
 export type Genre = 'Goth' | 'Industrial' | 'Darkwave' | 'Post-Punk' | 'EBM' | 'Synthpop' | 'Metal' | 'Other';
 
+export const GENRES: Genre[] = ['Goth', 'Industrial', 'Darkwave', 'Post-Punk', 'EBM', 'Synthpop', 'Metal', 'Other'];
+
 export interface BlogPost {
   id: string;
   title: string;
   content: string;
+  contentFormat: ContentFormat;
   metaDescription?: string;
   genre: Genre;
-  youtubeUrl?: string;
-  mediaUrl?: string;
+  sourceLinks?: SourceLink[]; // the music the post is about, first one analyzed
+  mediaId?: string; // media library asset (services/mediaLibrary.ts)
+  mediaUrl?: string; // resolved object URL of mediaId for display; not persisted
   mediaType?: MediaType;
   tags: string[];
+  status: PostStatus;
   date: string;
+  createdAt: string; // ISO 8601
+  updatedAt: string; // ISO 8601
   groundingSources?: { uri: string; title: string }[];
+  analysisMode?: AnalysisMode; // what the AI draft was written from
+  coverPromptChain?: string[]; // AI generation and edit prompts, in order, that produced the cover
+}
+
+export type MusicPlatform = 'youtube' | 'bandcamp' | 'spotify' | 'soundcloud' | 'apple-music';
+
+// A release or track on a streaming platform (services/linkResolver.ts)
+export interface SourceLink {
+  platform: MusicPlatform;
+  url: string; // normalized, without tracking parameters
+  embedUrl?: string; // player iframe; Bandcamp needs the page's metadata for it
+  artist?: string;
+  release?: string; // track, album or video title
+  coverUrl?: string;
+}
+
+// video: Gemini watched the YouTube video; search: Google Search research on
+// the link; link: the URL alone; audio: an uploaded or recorded track
+export type AnalysisMode = 'video' | 'search' | 'link' | 'audio';
+
+export type MediaKind = 'image' | 'video' | 'audio';
+export type MediaSource = 'upload' | 'image-generate' | 'image-edit' | 'veo' | 'live' | 'import';
+
+// A stored image or video that posts reference by id
+export interface MediaAsset {
+  id: string;
+  kind: MediaKind;
+  mimeType: string;
+  size: number; // bytes
+  width?: number;
+  height?: number;
+  duration?: number; // seconds, video and audio only
+  prompt?: string; // the AI prompt that produced it, if any
+  source: MediaSource;
+  createdAt: string; // ISO 8601
+}
+
+// One state of the cover in the image editor; edits form a tree so any
+// earlier version can be branched from
+export interface ImageVersion {
+  id: string;
+  parentId: string | null; // null for the original image
+  mediaId: string;
+  prompt: string | null; // the edit that produced it; null for the original
+  createdAt: string; // ISO 8601
 }
 
-export interface VeoState {
-  isGenerating: boolean;
+export interface ImageHistory {
+  versions: ImageVersion[];
+  currentId: string;
+  baseChain: string[]; // prompts behind the original (e.g. a reopened post's chain)
+}
+
+export type ImageAspectRatio = '1:1' | '4:3' | '3:4' | '16:9' | '9:16';
+
+export type VideoAspectRatio = '16:9' | '9:16';
+export type VideoResolution = '720p' | '1080p';
+// 'fast' trades some fidelity for speed and price; providers map it to a concrete model
+export type VideoQuality = 'fast' | 'quality';
+
+export interface VideoSettings {
+  aspectRatio: VideoAspectRatio;
+  resolution: VideoResolution;
+  negativePrompt: string;
+  takes: number;
+  quality: VideoQuality;
+}
+
+export type VeoJobStatus = 'queued' | 'running' | 'done' | 'failed' | 'cancelled';
+
+// A Veo generation tracked by the job queue; persisted so it survives reloads
+export interface VeoJob {
+  id: string;
+  prompt: string;
+  sourceImage?: string; // raw base64 (no data: prefix); absent for text-to-video
+  sourceMimeType?: string;
+  settings: VideoSettings;
+  operation?: string; // provider operation name, set once the job has started
+  status: VeoJobStatus;
   progress: string;
-  videoUrl: string | null;
   error: string | null;
+  mediaIds: string[]; // finished takes, stored in the media library
+  videoUrls: string[]; // object URLs of those takes; not persisted
+  createdAt: string; // ISO 8601
+  startedAt?: string; // ISO 8601
+  finishedAt?: string; // ISO 8601
 }
 
 export interface LiveState {
   isConnected: boolean;
   isSpeaking: boolean;
   volume: number;
-}
\ No newline at end of file
+}
+export type TranscriptSpeaker = 'user' | 'critic';
+
+// One turn of a live debate, built up from streamed transcription chunks
+export interface TranscriptEntry {
+  speaker: TranscriptSpeaker;
+  text: string;
+  at: string; // ISO 8601, when the turn started
+  complete?: boolean; // the speaker finished; further text starts a new turn
+  interrupted?: boolean; // the critic was cut off mid-turn
+}
+
+export interface LiveTranscript {
+  id: string;
+  startedAt: string; // ISO 8601
+  endedAt?: string;
+  entries: TranscriptEntry[];
+}
+
+// A recorded Live session, kept as a WAV in the media library
+export interface Episode {
+  id: string;
+  mediaId: string;
+  transcriptId?: string; // the session's transcript, if anything was said
+  duration: number; // seconds
+  createdAt: string; // ISO 8601
+}
+
+export type CriticStrictness = 'gentle' | 'fair' | 'ruthless';
+
+// Who the Live critic is: what it is told, how it sounds and which language it speaks
+export interface CriticPersona {
+  id: string;
+  name: string;
+  instruction: string;
+  voice: string; // a Live API prebuilt voice
+  language: string; // BCP-47, e.g. 'pt-BR'
+  strictness: CriticStrictness;
+  builtIn?: boolean; // shipped presets can be copied but not changed
+}
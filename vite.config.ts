@@ -8,11 +8,16 @@ export default defineConfig(({ mode }) => {
       server: {
         port: 3000,
         host: '0.0.0.0',
+        // AI calls go to the Node backend (npm run server), which holds the API key
+        proxy: {
+          '/api': { target: `http://localhost:${env.PORT || 8787}`, ws: true },
+        },
       },
       plugins: [react()],
       define: {
-        'process.env.API_KEY': JSON.stringify(env.GEMINI_API_KEY),
-        'process.env.GEMINI_API_KEY': JSON.stringify(env.GEMINI_API_KEY)
+        'process.env.AI_PROVIDER': JSON.stringify(env.AI_PROVIDER || 'gemini'),
+        'process.env.LOCAL_AI_URL': JSON.stringify(env.LOCAL_AI_URL || ''),
+        'process.env.LOCAL_AI_MODEL': JSON.stringify(env.LOCAL_AI_MODEL || '')
       },
       resolve: {
         alias: {